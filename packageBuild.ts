@@ -43,9 +43,15 @@ const ignoreList = [
     ".gitignore",
     ".DS_Store",
     "packageBuild.ts",
+    "journal/",
+    "revert/",
+    "catalog/",
+    "logs/",
+    "tmp/",
     "mod.code-workspace",
     "package-lock.json",
     "tsconfig.json",
+    "tsconfig.cli.json",
     "README.md",
     "Readme.docx"
 ];
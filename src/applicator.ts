@@ -1,4 +1,8 @@
+import { ChangeJournal } from "./change_journal";
+import { PropertySnapshot } from "./property_snapshot";
+import { Formula } from "./formula";
 import { VerboseLogger } from "./verbose_logger";
+import { LogTextColor } from "./log_colors";
 
 /**
  * To define a format in which to output the value/multiplier application log.
@@ -15,7 +19,13 @@ enum ApplicatorLogFormat
 enum ApplicatorChangeType
     {
     MULTIPLY,
-    SET_VALUE
+    SET_VALUE,
+    REMOVE_ELEMENTS,
+    // Adds numbers to numeric properties and elements to array properties
+    ADD,
+    CLAMP,
+    FLOOR_AT,
+    CAP_AT
 }
 
 
@@ -24,16 +34,28 @@ enum ApplicatorChangeType
  * As a rule returns a number of applied changes.
  * 
  * Requires a VerboseLogger to optionally output messages based on a config value.
+ * Optionally records every applied change into a ChangeJournal and saves the original values into a PropertySnapshot.
  * 
- * Version 230315
+ * Version 261018
  */
 class Applicator 
 {
+    // Item, economy and offer properties which only hold integers, rounded with "round": true
+    public static readonly integerProperties: readonly string[] = [
+        "StackMaxSize", "StackMinRandom", "StackMaxRandom", "Width", "Height", "ExtraSizeLeft", "ExtraSizeRight", "ExtraSizeUp", "ExtraSizeDown",
+        "cellsH", "cellsV", "maxCount", "MaxResource", "MaxHpResource", "MaxRepairResource", "bFirerate", "SingleFireRate", "LootExperience",
+        "ExamineExperience", "RepairCost", "CreditsPrice", "Price", "price", "loyaltyLevel", "stockCount", "buyRestrictionMax", "cost", "count"
+    ];
+
     private logger: VerboseLogger;
+    private journal: ChangeJournal;
+    private snapshot: PropertySnapshot;
 
-    constructor(logger: VerboseLogger)
+    constructor(logger: VerboseLogger, journal?: ChangeJournal, snapshot?: PropertySnapshot)
     {
         this.logger = logger;
+        this.journal = journal;
+        this.snapshot = snapshot;
     }
 
     /**
@@ -51,7 +73,7 @@ class Applicator
         {
             // const oldValue = targetObj[parameter];
             const oldValue = Applicator.getNestedProperty(targetObj, parameter);
-            const newValue = sourceObj[parameter];
+            const newValue = this.getNewValue(targetObj, sourceObj, parameter);
             if (oldValue !== undefined) 
             {
                 if (typeof oldValue !== typeof newValue)
@@ -77,6 +99,22 @@ class Applicator
         }
     }
 
+    /**
+     * Gets the value to apply. Formulas (strings starting with "=") are computed from the target object if the property is a number,
+     * other properties get the string as it is.
+     * @param targetObj Target object to apply the value to.
+     * @param sourceObj Source object to get the value from.
+     * @param parameter Property name.
+     * @returns Value to apply.
+     */
+    private getNewValue(targetObj: object, sourceObj: object, parameter: string): any
+    {
+        const value = sourceObj[parameter];
+        if (Formula.isFormula(value) && typeof Applicator.getNestedProperty(targetObj, parameter) === "number")
+            return Formula.evaluate(value, targetObj);
+        return value;
+    }
+
     /**
      * Checks if a multiplier can be applied to the target object (without actually applying it).
      * @param targetObj Target object to apply the value to.
@@ -124,6 +162,176 @@ class Applicator
         }
     }
 
+    /**
+     * Checks if array elements can be added to or removed from the target object's array property (without actually applying it).
+     * @param targetObj Target object to apply the elements to.
+     * @param sourceObj Source object to get the elements from.
+     * @param parameter Property name.
+     * @param showLogMessages Whether to show the warning/error messages during the checking process.
+     * @returns Boolean check result.
+     */
+    public canApplyElements(targetObj: object, sourceObj: object, parameter: string, showLogMessages = false): boolean
+    {
+        try 
+        {
+            const oldValue = Applicator.getNestedProperty(targetObj, parameter);
+            const elements = sourceObj[parameter];
+            if (!Array.isArray(elements))
+            {
+                if (showLogMessages)
+                    this.logger.error(`[ERROR] "${parameter}" elements have to be defined as an array!`);
+                return false;
+            }
+            if (oldValue !== undefined) 
+            {
+                if (!Array.isArray(oldValue))
+                {
+                    if (showLogMessages)
+                        this.logger.error(`[ERROR] Type of property "${parameter}" is ${typeof oldValue}, elements can only be added to or removed from arrays!`);
+                    return false;
+                }
+                // Arrays in the database are homogeneous, so the first element is enough to know the expected type.
+                if (oldValue.length > 0 && elements.some(element => typeof element !== typeof oldValue[0]))
+                {
+                    if (showLogMessages)
+                        this.logger.error(`[ERROR] "${parameter}": elements ${JSON.stringify(elements.filter(element => typeof element !== typeof oldValue[0]))} don't match array element type "${typeof oldValue[0]}"!`);
+                    return false;
+                }
+            }
+            else 
+            {
+                if (showLogMessages)
+                    this.logger.warning(`[WARNING] "${parameter}" property is undefined in the target object.`);
+                return false;
+            }
+            return true;
+        }
+        catch (error) 
+        {
+            if (showLogMessages)
+                this.logger.error(`[ERROR] "${parameter}": ${error}`);
+            return false;
+        }
+    }
+
+    /**
+     * Checks if a number can be added to the target object's numeric property (without actually applying it).
+     * @param targetObj Target object to apply the value to.
+     * @param sourceObj Source object to get the value from.
+     * @param parameter Property name.
+     * @param showLogMessages Whether to show the warning/error messages during the checking process.
+     * @returns Boolean check result.
+     */
+    public canApplyAddend(targetObj: object, sourceObj: object, parameter: string, showLogMessages = false): boolean
+    {
+        try 
+        {
+            const oldValue = Applicator.getNestedProperty(targetObj, parameter);
+            const addend = sourceObj[parameter];
+            if (typeof addend !== "number" || Number.isNaN(addend))
+            {
+                if (showLogMessages)
+                    this.logger.error(`[ERROR] "${parameter}" property addend has to be a number!`);
+                return false;
+            }
+            if (oldValue === undefined)
+            {
+                if (showLogMessages)
+                    this.logger.warning(`[WARNING] "${parameter}" property is undefined in the target object.`);
+                return false;
+            }
+            if (typeof oldValue !== "number" || Number.isNaN(oldValue))
+            {
+                if (showLogMessages)
+                    this.logger.error(`[ERROR] Type of property "${parameter}" is ${typeof oldValue}, numbers can only be added to numbers!`);
+                return false;
+            }
+            return true;
+        }
+        catch (error) 
+        {
+            if (showLogMessages)
+                this.logger.error(`[ERROR] "${parameter}": ${error}`);
+            return false;
+        }
+    }
+
+    /**
+     * Checks if an "add" change can be applied: numbers are added to numeric properties, arrays of elements to array properties.
+     * @param targetObj Target object to apply the value to.
+     * @param sourceObj Source object to get the value from.
+     * @param parameter Property name.
+     * @param showLogMessages Whether to show the warning/error messages during the checking process.
+     * @returns Boolean check result.
+     */
+    public canApplyAddition(targetObj: object, sourceObj: object, parameter: string, showLogMessages = false): boolean
+    {
+        return typeof sourceObj[parameter] === "number" ? 
+            this.canApplyAddend(targetObj, sourceObj, parameter, showLogMessages) : 
+            this.canApplyElements(targetObj, sourceObj, parameter, showLogMessages);
+    }
+
+    /**
+     * Checks if a bound can be applied to the target object's numeric property (without actually applying it).
+     * "CLAMP" bounds are objects with optional "min" and "max" numbers, "FLOOR_AT" and "CAP_AT" bounds are numbers.
+     * @param targetObj Target object to apply the bound to.
+     * @param sourceObj Source object to get the bound from.
+     * @param parameter Property name.
+     * @param changeType CLAMP, FLOOR_AT or CAP_AT.
+     * @param showLogMessages Whether to show the warning/error messages during the checking process.
+     * @returns Boolean check result.
+     */
+    public canApplyBound(targetObj: object, sourceObj: object, parameter: string, changeType: ApplicatorChangeType, showLogMessages = false): boolean
+    {
+        try 
+        {
+            const oldValue = Applicator.getNestedProperty(targetObj, parameter);
+            const bound = sourceObj[parameter];
+            const isNumber = (value: any): boolean => typeof value === "number" && !Number.isNaN(value);
+            if (changeType === ApplicatorChangeType.CLAMP)
+            {
+                if (bound == null || typeof bound !== "object" || (bound.min === undefined && bound.max === undefined) || 
+                    (bound.min !== undefined && !isNumber(bound.min)) || (bound.max !== undefined && !isNumber(bound.max)))
+                {
+                    if (showLogMessages)
+                        this.logger.error(`[ERROR] "${parameter}" property clamp has to be an object with "min" and/or "max" numbers!`);
+                    return false;
+                }
+                if (bound.min !== undefined && bound.max !== undefined && bound.min > bound.max)
+                {
+                    if (showLogMessages)
+                        this.logger.error(`[ERROR] "${parameter}" property clamp "min"(${bound.min}) is greater than "max"(${bound.max})!`);
+                    return false;
+                }
+            }
+            else if (!isNumber(bound))
+            {
+                if (showLogMessages)
+                    this.logger.error(`[ERROR] "${parameter}" property bound has to be a number!`);
+                return false;
+            }
+            if (oldValue === undefined)
+            {
+                if (showLogMessages)
+                    this.logger.warning(`[WARNING] "${parameter}" property is undefined in the target object.`);
+                return false;
+            }
+            if (!isNumber(oldValue))
+            {
+                if (showLogMessages)
+                    this.logger.error(`[ERROR] Type of property "${parameter}" is ${typeof oldValue} and can't be bounded!`);
+                return false;
+            }
+            return true;
+        }
+        catch (error) 
+        {
+            if (showLogMessages)
+                this.logger.error(`[ERROR] "${parameter}": ${error}`);
+            return false;
+        }
+    }
+
     /**
      * Checks if atleast one change can be applied to the target object.
      * @param targetObj Target object to apply the value to.
@@ -134,15 +342,30 @@ class Applicator
      */
     public canApplyAnyChanges(targetObj: object, sourceObj: object, changeType: ApplicatorChangeType, showLogMessages = false): boolean
     {
+        const concreteSourceObj = this.expandSourceObject(targetObj, sourceObj, showLogMessages);
         switch (changeType)
         {
             case ApplicatorChangeType.MULTIPLY:
-                for (const parameter in sourceObj)
-                    if (this.canApplyMultiplier(targetObj, sourceObj, parameter, showLogMessages)) return true;
+                for (const parameter in concreteSourceObj)
+                    if (this.canApplyMultiplier(targetObj, concreteSourceObj, parameter, showLogMessages)) return true;
                 break;
             case ApplicatorChangeType.SET_VALUE:
-                for (const parameter in sourceObj) 
-                    if (this.canApplyValue(targetObj, sourceObj, parameter, showLogMessages)) return true;
+                for (const parameter in concreteSourceObj) 
+                    if (this.canApplyValue(targetObj, concreteSourceObj, parameter, showLogMessages)) return true;
+                break;
+            case ApplicatorChangeType.REMOVE_ELEMENTS:
+                for (const parameter in concreteSourceObj) 
+                    if (this.canApplyElements(targetObj, concreteSourceObj, parameter, showLogMessages)) return true;
+                break;
+            case ApplicatorChangeType.ADD:
+                for (const parameter in concreteSourceObj) 
+                    if (this.canApplyAddition(targetObj, concreteSourceObj, parameter, showLogMessages)) return true;
+                break;
+            case ApplicatorChangeType.CLAMP:
+            case ApplicatorChangeType.FLOOR_AT:
+            case ApplicatorChangeType.CAP_AT:
+                for (const parameter in concreteSourceObj) 
+                    if (this.canApplyBound(targetObj, concreteSourceObj, parameter, changeType, showLogMessages)) return true;
                 break;
             default:
                 throw ("Undefined ApplicatorChangeType used.");
@@ -156,41 +379,34 @@ class Applicator
      * @param sourceObj Source object to get the value from.
      * @param parameter Property name which should be applied.
      * @param logFormat A format in which to output the application log.
+     * @param roundIntegers Whether integer properties stay integer, only matters for formulas.
      * @returns Number of changes made. (1 or 0 due to it being a singular application function)
      */
-    public tryToApplyValue(targetObj: object, sourceObj: object, parameter: string, logFormat: ApplicatorLogFormat = ApplicatorLogFormat.DEFAULT): number 
+    public tryToApplyValue(targetObj: object, sourceObj: object, parameter: string, logFormat: ApplicatorLogFormat = ApplicatorLogFormat.DEFAULT, roundIntegers: boolean | string[] = false): number 
     {
         if (this.canApplyValue(targetObj, sourceObj, parameter, true))
         {
-            const newValue = sourceObj[parameter];
             const oldValue = Applicator.getNestedProperty(targetObj, parameter);
+            const newValue = Formula.isFormula(sourceObj[parameter]) ? Applicator.roundIfInteger(parameter, this.getNewValue(targetObj, sourceObj, parameter), roundIntegers) : sourceObj[parameter];
+            const formulaNote = Formula.isFormula(sourceObj[parameter]) && typeof oldValue === "number" ? ` from "${sourceObj[parameter]}"` : "";
             // Comparing stringify results will allow object and array comparison
             if (JSON.stringify(oldValue) !== JSON.stringify(newValue))
             {
                 // targetObj[parameter] = newValue;
+                this.snapshot?.save(targetObj, parameter);
                 Applicator.setNestedProperty(targetObj, parameter, newValue);
-                switch (logFormat)
-                {
-                    case ApplicatorLogFormat.LIST_ENTRY:
-                        this.logger.success(`├ ${parameter}: Successfully applied value ${JSON.stringify(Applicator.getNestedProperty(targetObj, parameter))} (was ${JSON.stringify(oldValue)})`);
-                        break;
-                    default:
-                        this.logger.success(`"${parameter}": Successfully applied value ${JSON.stringify(Applicator.getNestedProperty(targetObj, parameter))} (was ${JSON.stringify(oldValue)})`);
-                        break;
-                }
+            }
+            // Read back, setters of the target (e.g. trader assort offers) may round or clamp the value
+            const appliedValue = Applicator.getNestedProperty(targetObj, parameter);
+            if (JSON.stringify(oldValue) !== JSON.stringify(appliedValue))
+            {
+                this.journal?.record(parameter, "set", oldValue, appliedValue);
+                this.logResult(logFormat, parameter, true, `Successfully applied value ${JSON.stringify(appliedValue)}${formulaNote}`, `(was ${JSON.stringify(oldValue)})`);
                 return 1;
             }
             else 
             {
-                switch (logFormat)
-                {
-                    case ApplicatorLogFormat.LIST_ENTRY:
-                        this.logger.info(`├ ${parameter}: Default or identical value used (${JSON.stringify(oldValue)}). No changes applied.`);
-                        break;
-                    default:
-                        this.logger.info(`"${parameter}": Default or identical value used (${JSON.stringify(oldValue)}). No changes applied.`);
-                        break;
-                }
+                this.logResult(logFormat, parameter, false, "Default or identical value used. No changes applied.", `(Current: ${JSON.stringify(oldValue)})`);
             }
         }
         return 0;
@@ -219,9 +435,10 @@ class Applicator
      * @param sourceObj Source object to get the multiplier from.
      * @param parameter Property name which should be applied.
      * @param logFormat A format in which to output the application log.
+     * @param roundIntegers Whether integer properties stay integer.
      * @returns Number of changes made. (1 or 0 due to it being a singular application function)
      */
-    public tryToApplyMultiplier(targetObj: object, sourceObj: object, parameter: string, logFormat: ApplicatorLogFormat = ApplicatorLogFormat.DEFAULT): number 
+    public tryToApplyMultiplier(targetObj: object, sourceObj: object, parameter: string, logFormat: ApplicatorLogFormat = ApplicatorLogFormat.DEFAULT, roundIntegers: boolean | string[] = false): number 
     {
         if (this.canApplyMultiplier(targetObj, sourceObj, parameter, true))
         {
@@ -229,34 +446,18 @@ class Applicator
             // const oldValue = targetObj[parameter];
             const oldValue = Applicator.getNestedProperty(targetObj, parameter);
             // targetObj[parameter] *= multiplier;
-            Applicator.setNestedProperty(targetObj, parameter, oldValue * multiplier);
+            this.snapshot?.save(targetObj, parameter);
+            Applicator.setNestedProperty(targetObj, parameter, Applicator.roundIfInteger(parameter, oldValue * multiplier, roundIntegers));
             // if (oldValue !== targetObj[parameter]) 
             if (oldValue !== Applicator.getNestedProperty(targetObj, parameter)) 
             {
-                switch (logFormat)
-                {
-                    case ApplicatorLogFormat.LIST_ENTRY:
-                    // Format string seems not that useful here at all, keep for reference or remove later.
-                    // this.logger.success("├ %0s: Successfully multiplied by %0s (Before: %0s | After: %0s)", parameter, multiplier, oldValue, targetObj[parameter]);
-                        this.logger.success(`├ ${parameter}: Successfully multiplied by ${multiplier} (Before: ${oldValue} | After: ${Applicator.getNestedProperty(targetObj, parameter)})`);
-                        break;
-                    default:
-                        this.logger.success(`"${parameter}": Successfully multiplied by ${multiplier} (Before: ${oldValue} | After: ${Applicator.getNestedProperty(targetObj, parameter)})`);
-                        break;
-                }
+                this.journal?.record(parameter, "multiply", oldValue, Applicator.getNestedProperty(targetObj, parameter));
+                this.logResult(logFormat, parameter, true, `Successfully multiplied by ${multiplier}`, `(Before: ${oldValue} | After: ${Applicator.getNestedProperty(targetObj, parameter)})`);
                 return 1;
             }
             else 
             {
-                switch (logFormat)
-                {
-                    case ApplicatorLogFormat.LIST_ENTRY:
-                        this.logger.info(`├ ${parameter}: New and old values are identical. No changes applied. (Current: ${oldValue})`);
-                        break;
-                    default:
-                        this.logger.info(`"${parameter}": New and old values are identical. No changes applied. (Current: ${oldValue})`);
-                        break;
-                }
+                this.logResult(logFormat, parameter, false, "New and old values are identical. No changes applied.", `(Current: ${oldValue})`);
             }
         }
         return 0;
@@ -279,26 +480,248 @@ class Applicator
         return changeCounter;
     }
 
+    /**
+     * A singular applicator function. Tries to add elements from one object to the array property of another's if possible.
+     * Elements which are already present in the array (or duplicated in the source) are skipped.
+     * @param targetObj Target object to add the elements to.
+     * @param sourceObj Source object to get the elements from.
+     * @param parameter Property name which should be applied.
+     * @param logFormat A format in which to output the application log.
+     * @returns Number of changes made. (1 or 0 due to it being a singular application function)
+     */
+    public tryToAddElements(targetObj: object, sourceObj: object, parameter: string, logFormat: ApplicatorLogFormat = ApplicatorLogFormat.DEFAULT): number 
+    {
+        if (this.canApplyElements(targetObj, sourceObj, parameter, true))
+        {
+            const oldValue: unknown[] = Applicator.getNestedProperty(targetObj, parameter);
+            const elements: unknown[] = sourceObj[parameter];
+            // Comparing stringify results will allow object and array elements
+            const presentElements = oldValue.map(element => JSON.stringify(element));
+            const addedElements = elements.filter(element => 
+            {
+                const elementString = JSON.stringify(element);
+                if (presentElements.includes(elementString)) return false;
+                presentElements.push(elementString);
+                return true;
+            });
+            if (addedElements.length > 0)
+            {
+                this.snapshot?.save(targetObj, parameter);
+                Applicator.setNestedProperty(targetObj, parameter, oldValue.concat(addedElements));
+                this.journal?.record(parameter, "add", oldValue, Applicator.getNestedProperty(targetObj, parameter));
+                this.logResult(logFormat, parameter, true, `Successfully added ${JSON.stringify(addedElements)}`, `(Before: ${oldValue.length} elements | After: ${Applicator.getNestedProperty(targetObj, parameter).length} elements)`);
+                return 1;
+            }
+            else 
+            {
+                this.logResult(logFormat, parameter, false, "All elements are already present. No changes applied.", `(Current: ${oldValue.length} elements)`);
+            }
+        }
+        return 0;
+    }
+
+    /**
+     * A singular applicator function. Tries to remove elements listed in one object from the array property of another's if possible.
+     * @param targetObj Target object to remove the elements from.
+     * @param sourceObj Source object to get the elements from.
+     * @param parameter Property name which should be applied.
+     * @param logFormat A format in which to output the application log.
+     * @returns Number of changes made. (1 or 0 due to it being a singular application function)
+     */
+    public tryToRemoveElements(targetObj: object, sourceObj: object, parameter: string, logFormat: ApplicatorLogFormat = ApplicatorLogFormat.DEFAULT): number 
+    {
+        if (this.canApplyElements(targetObj, sourceObj, parameter, true))
+        {
+            const oldValue: unknown[] = Applicator.getNestedProperty(targetObj, parameter);
+            const elements: unknown[] = sourceObj[parameter];
+            const removedElements = elements.map(element => JSON.stringify(element));
+            const newValue = oldValue.filter(element => !removedElements.includes(JSON.stringify(element)));
+            if (newValue.length !== oldValue.length)
+            {
+                this.snapshot?.save(targetObj, parameter);
+                Applicator.setNestedProperty(targetObj, parameter, newValue);
+                this.journal?.record(parameter, "remove", oldValue, newValue);
+                this.logResult(logFormat, parameter, true, `Successfully removed ${JSON.stringify(oldValue.filter(element => removedElements.includes(JSON.stringify(element))))}`, `(Before: ${oldValue.length} elements | After: ${newValue.length} elements)`);
+                return 1;
+            }
+            else 
+            {
+                this.logResult(logFormat, parameter, false, "None of the elements are present. No changes applied.", `(Current: ${oldValue.length} elements)`);
+            }
+        }
+        return 0;
+    }
+
+    /**
+     * A singular applicator function. Tries to add a number from one object to the numeric property of another's if possible.
+     * @param targetObj Target object to add the number to.
+     * @param sourceObj Source object to get the number from.
+     * @param parameter Property name which should be applied.
+     * @param logFormat A format in which to output the application log.
+     * @param roundIntegers Whether integer properties stay integer.
+     * @returns Number of changes made. (1 or 0 due to it being a singular application function)
+     */
+    public tryToApplyAddend(targetObj: object, sourceObj: object, parameter: string, logFormat: ApplicatorLogFormat = ApplicatorLogFormat.DEFAULT, roundIntegers: boolean | string[] = false): number 
+    {
+        if (this.canApplyAddend(targetObj, sourceObj, parameter, true))
+        {
+            const oldValue: number = Applicator.getNestedProperty(targetObj, parameter);
+            const addend: number = sourceObj[parameter];
+            return this.tryToApplyNumber(targetObj, parameter, Applicator.roundIfInteger(parameter, oldValue + addend, roundIntegers), "add", `added ${addend}`, logFormat);
+        }
+        return 0;
+    }
+
+    /**
+     * A singular applicator function. Tries to add either a number or array elements, depending on the source value type.
+     * @param targetObj Target object to add to.
+     * @param sourceObj Source object to get the number or elements from.
+     * @param parameter Property name which should be applied.
+     * @param logFormat A format in which to output the application log.
+     * @param roundIntegers Whether integer properties stay integer.
+     * @returns Number of changes made. (1 or 0 due to it being a singular application function)
+     */
+    public tryToApplyAddition(targetObj: object, sourceObj: object, parameter: string, logFormat: ApplicatorLogFormat = ApplicatorLogFormat.DEFAULT, roundIntegers: boolean | string[] = false): number 
+    {
+        return typeof sourceObj[parameter] === "number" ? 
+            this.tryToApplyAddend(targetObj, sourceObj, parameter, logFormat, roundIntegers) : 
+            this.tryToAddElements(targetObj, sourceObj, parameter, logFormat);
+    }
+
+    /**
+     * A singular applicator function. Tries to keep the numeric property of the target object within a bound if possible.
+     * @param targetObj Target object to apply the bound to.
+     * @param sourceObj Source object to get the bound from.
+     * @param parameter Property name which should be applied.
+     * @param changeType CLAMP, FLOOR_AT or CAP_AT.
+     * @param logFormat A format in which to output the application log.
+     * @param roundIntegers Whether integer properties stay integer.
+     * @returns Number of changes made. (1 or 0 due to it being a singular application function)
+     */
+    public tryToApplyBound(targetObj: object, sourceObj: object, parameter: string, changeType: ApplicatorChangeType, logFormat: ApplicatorLogFormat = ApplicatorLogFormat.DEFAULT, roundIntegers: boolean | string[] = false): number 
+    {
+        if (this.canApplyBound(targetObj, sourceObj, parameter, changeType, true))
+        {
+            const oldValue: number = Applicator.getNestedProperty(targetObj, parameter);
+            const bound = sourceObj[parameter];
+            switch (changeType)
+            {
+                case ApplicatorChangeType.CLAMP:
+                {
+                    const newValue = Math.min(Math.max(oldValue, bound.min ?? -Infinity), bound.max ?? Infinity);
+                    return this.tryToApplyNumber(targetObj, parameter, Applicator.roundIfInteger(parameter, newValue, roundIntegers), "clamp", `clamped to [${bound.min ?? "-∞"}, ${bound.max ?? "∞"}]`, logFormat);
+                }
+                case ApplicatorChangeType.FLOOR_AT:
+                    return this.tryToApplyNumber(targetObj, parameter, Applicator.roundIfInteger(parameter, Math.max(oldValue, bound), roundIntegers), "floor_at", `floored at ${bound}`, logFormat);
+                case ApplicatorChangeType.CAP_AT:
+                    return this.tryToApplyNumber(targetObj, parameter, Applicator.roundIfInteger(parameter, Math.min(oldValue, bound), roundIntegers), "cap_at", `capped at ${bound}`, logFormat);
+                default:
+                    throw ("Undefined bound ApplicatorChangeType used.");
+            }
+        }
+        return 0;
+    }
+
+    /**
+     * Writes a computed number into the target object's property and logs the result.
+     * @param targetObj Target object.
+     * @param parameter Property name.
+     * @param newValue Computed value. The value read back after the set is recorded, the target may round or clamp it.
+     * @param operation Operation name for the change journal.
+     * @param description Description of the change for the log, e.g. "added 5".
+     * @param logFormat A format in which to output the application log.
+     * @returns Number of changes made.
+     */
+    private tryToApplyNumber(targetObj: object, parameter: string, newValue: number, operation: string, description: string, logFormat: ApplicatorLogFormat): number
+    {
+        const oldValue: number = Applicator.getNestedProperty(targetObj, parameter);
+        if (oldValue !== newValue)
+        {
+            this.snapshot?.save(targetObj, parameter);
+            Applicator.setNestedProperty(targetObj, parameter, newValue);
+        }
+        // Read back, setters of the target (e.g. trader assort offers) may round or clamp the value
+        const appliedValue: number = Applicator.getNestedProperty(targetObj, parameter);
+        if (oldValue !== appliedValue)
+        {
+            this.journal?.record(parameter, operation, oldValue, appliedValue);
+            this.logResult(logFormat, parameter, true, `Successfully ${description}`, `(Before: ${oldValue} | After: ${appliedValue})`);
+            return 1;
+        }
+        this.logResult(logFormat, parameter, false, "New and old values are identical. No changes applied.", `(Current: ${oldValue})`);
+        return 0;
+    }
+
+    /**
+     * Logs the result of a singular application. List entries are logged as table rows, so consecutive entries of a selector are aligned.
+     * @param logFormat A format in which to output the application log.
+     * @param parameter Property name.
+     * @param isChanged Whether the property was changed.
+     * @param message Result message, e.g. "Successfully multiplied by 2".
+     * @param details Values before and after the change.
+     */
+    private logResult(logFormat: ApplicatorLogFormat, parameter: string, isChanged: boolean, message: string, details: string): void
+    {
+        if (logFormat === ApplicatorLogFormat.LIST_ENTRY)
+            this.logger.row([`├ ${parameter}:`, message, details], isChanged ? LogTextColor.GREEN : LogTextColor.WHITE);
+        else if (isChanged)
+            this.logger.success(`"${parameter}": ${message} ${details}`);
+        else
+            this.logger.info(`"${parameter}": ${message} ${details}`);
+    }
+
+    /**
+     * Rounds a new value if the property is an integer one, e.g. to keep "StackMaxSize" or "cellsH" integer.
+     * The current value doesn't matter, a float property which happens to hold a whole number (e.g. "Weight": 1) is never rounded.
+     * @param parameter Property path, only the last segment is checked.
+     * @param newValue Computed value.
+     * @param roundIntegers Whether rounding is enabled: true for "integerProperties" or an array of property names.
+     * @returns Rounded or unchanged new value.
+     */
+    public static roundIfInteger(parameter: string, newValue: number, roundIntegers: boolean | string[]): number
+    {
+        if (roundIntegers === false || roundIntegers == null) return newValue;
+        const segments = Applicator.splitPropertyPath(parameter);
+        const integerProperties = Array.isArray(roundIntegers) ? roundIntegers : Applicator.integerProperties;
+        return integerProperties.includes(segments[segments.length - 1]) ? Math.round(newValue) : newValue;
+    }
+
     /**
      * Tries to apply all changes from source object to the the properties of a target object if possible. May output success, warning and error messages.
      * @param targetObj Target object to apply the changes to.
      * @param sourceObj Source object to get the changes from.
      * @param changeType Change type enum.
      * @param logFormat A format in which to output the application log.
+     * @param roundIntegers Whether integer properties stay integer after numeric changes.
      * @returns Number of changes made.
      */
-    public tryToApplyAllChanges(targetObj: object, sourceObj: object, changeType: ApplicatorChangeType, logFormat: ApplicatorLogFormat = ApplicatorLogFormat.DEFAULT): number 
+    public tryToApplyAllChanges(targetObj: object, sourceObj: object, changeType: ApplicatorChangeType, logFormat: ApplicatorLogFormat = ApplicatorLogFormat.DEFAULT, roundIntegers: boolean | string[] = false): number 
     {
+        const concreteSourceObj = this.expandSourceObject(targetObj, sourceObj, true);
         let changeCounter = 0;
         switch (changeType)
         {
             case ApplicatorChangeType.MULTIPLY:
-                for (const parameter in sourceObj) 
-                    changeCounter += this.tryToApplyMultiplier(targetObj, sourceObj, parameter, logFormat);
+                for (const parameter in concreteSourceObj) 
+                    changeCounter += this.tryToApplyMultiplier(targetObj, concreteSourceObj, parameter, logFormat, roundIntegers);
                 break;
             case ApplicatorChangeType.SET_VALUE:
-                for (const parameter in sourceObj) 
-                    changeCounter += this.tryToApplyValue(targetObj, sourceObj, parameter, logFormat);
+                for (const parameter in concreteSourceObj) 
+                    changeCounter += this.tryToApplyValue(targetObj, concreteSourceObj, parameter, logFormat, roundIntegers);
+                break;
+            case ApplicatorChangeType.REMOVE_ELEMENTS:
+                for (const parameter in concreteSourceObj) 
+                    changeCounter += this.tryToRemoveElements(targetObj, concreteSourceObj, parameter, logFormat);
+                break;
+            case ApplicatorChangeType.ADD:
+                for (const parameter in concreteSourceObj) 
+                    changeCounter += this.tryToApplyAddition(targetObj, concreteSourceObj, parameter, logFormat, roundIntegers);
+                break;
+            case ApplicatorChangeType.CLAMP:
+            case ApplicatorChangeType.FLOOR_AT:
+            case ApplicatorChangeType.CAP_AT:
+                for (const parameter in concreteSourceObj) 
+                    changeCounter += this.tryToApplyBound(targetObj, concreteSourceObj, parameter, changeType, logFormat, roundIntegers);
                 break;
             default:
                 throw ("Undefined ApplicatorChangeType used.");
@@ -318,16 +741,13 @@ class Applicator
             targetObj[parameter] *= multiplier;
             if (oldValue !== targetObj[parameter])
             {
-                // TODO: Maybe auto calculate the spaces and make values centered for fancy output
-                // this.logger.success(`"${parameter}": Successfully applied value ${targetObj[parameter]}. (was ${oldValue})`);
-                // this.logger.success("├ %15s by %6s; %6s -> %6s", parameter, multiplier, oldValue, targetObj[parameter]);
-                this.logger.success("├ %0s: Successfully multiplied by %0s (Before: %0s | After: %0s)", parameter, multiplier, oldValue, targetObj[parameter]);
+                this.logResult(ApplicatorLogFormat.LIST_ENTRY, parameter, true, `Successfully multiplied by ${multiplier}`, `(Before: ${oldValue} | After: ${targetObj[parameter]})`);
 
                 return 1;
             }
             else 
             {
-                this.logger.info(`├ ${parameter}: New and old values are identical. No changes applied. (Current: ${targetObj[parameter]})`);
+                this.logResult(ApplicatorLogFormat.LIST_ENTRY, parameter, false, "New and old values are identical. No changes applied.", `(Current: ${targetObj[parameter]})`);
             }
         }
         else 
@@ -362,12 +782,12 @@ class Applicator
             if (targetObj[parameter] !== newValue)
             {
                 targetObj[parameter] = newValue;
-                this.logger.success(`├ ${parameter}: Successfully applied value ${JSON.stringify(targetObj[parameter])} (was ${JSON.stringify(oldValue)})`);
+                this.logResult(ApplicatorLogFormat.LIST_ENTRY, parameter, true, `Successfully applied value ${JSON.stringify(targetObj[parameter])}`, `(was ${JSON.stringify(oldValue)})`);
                 return 1;
             }
             else 
             {
-                this.logger.info(`├ ${parameter}: Default or identical value used (${JSON.stringify(oldValue)}). No changes applied.`);
+                this.logResult(ApplicatorLogFormat.LIST_ENTRY, parameter, false, "Default or identical value used. No changes applied.", `(Current: ${JSON.stringify(oldValue)})`);
             }
         }
         else 
@@ -415,6 +835,160 @@ class Applicator
         else this.setNestedProperty(targetObj[head], rest.join("."), value);
     }
 
+    /**
+     * Expands wildcard and predicate keys of a source object into concrete property paths of the target object.
+     * Patterns which don't match any property are left out.
+     * @param targetObj Target object to resolve the paths in.
+     * @param sourceObj Source object, e.g. a "multiply" block.
+     * @param showLogMessages Whether to warn about patterns which don't match any property.
+     * @returns New source object with concrete keys.
+     */
+    private expandSourceObject(targetObj: object, sourceObj: object, showLogMessages: boolean): object
+    {
+        const concreteSourceObj = Applicator.expandPropertyPaths(targetObj, sourceObj ?? {});
+        for (const parameter of Object.keys(concreteSourceObj).filter(key => Applicator.isPropertyPathPattern(key)))
+        {
+            if (showLogMessages)
+                this.logger.warning(`[WARNING] "${parameter}" property path doesn't match any property in the target object.`);
+            delete concreteSourceObj[parameter];
+        }
+        return concreteSourceObj;
+    }
+
+    /**
+     * Checks if a property path has wildcard ("Grids.*._props.cellsV") or predicate ("Slots[_name=mod_equipment_000]") segments.
+     * @param propertyPath Property path.
+     * @returns Boolean check result.
+     */
+    public static isPropertyPathPattern(propertyPath: string): boolean
+    {
+        return propertyPath.includes("*") || propertyPath.includes("[");
+    }
+
+    /**
+     * Splits a property path into segments. Dots inside predicates don't split, e.g. "Slots[_props.name=a.b].x" -> ["Slots[_props.name=a.b]", "x"].
+     * Throws if the path is malformed.
+     * @param propertyPath Property path.
+     * @returns Array of segments.
+     */
+    public static splitPropertyPath(propertyPath: string): string[]
+    {
+        const segments: string[] = [];
+        let segment = "";
+        let isInPredicate = false;
+        for (const char of propertyPath)
+        {
+            if (char === "[" && !isInPredicate) isInPredicate = true;
+            else if (char === "]" && isInPredicate) isInPredicate = false;
+            else if (char === "[" || char === "]") throw `Unexpected "${char}" in property path "${propertyPath}"`;
+            if (char === "." && !isInPredicate)
+            {
+                segments.push(segment);
+                segment = "";
+            }
+            else
+            {
+                segment += char;
+            }
+        }
+        if (isInPredicate) throw `Unclosed "[" in property path "${propertyPath}"`;
+        segments.push(segment);
+        for (const pathSegment of segments)
+        {
+            if (pathSegment === "") throw `Empty segment in property path "${propertyPath}"`;
+            if (pathSegment.includes("[") && !/^[^[\]]+\[[^=\]]+=[^\]]*\]$/.test(pathSegment))
+                throw `Predicate segment "${pathSegment}" in property path "${propertyPath}" has to look like "Slots[_name=mod_equipment_000]"`;
+        }
+        return segments;
+    }
+
+    /**
+     * Resolves a property path with wildcard and predicate segments into concrete dotted paths which exist in the target object:
+     * - "*" matches every key of an object or index of an array, e.g. "Grids.*._props.cellsV";
+     * - "<property>[<key>=<value>]" matches elements of the property with a nested key equal to the value, e.g. "Slots[_name=mod_equipment_000]".
+     * Parents of the last segment have to exist, the last property itself might be undefined. Paths without patterns are returned as they are.
+     * @param targetObj Target object to resolve the path in.
+     * @param propertyPath Property path.
+     * @returns Array of concrete property paths, e.g. ["Grids.0._props.cellsV", "Grids.1._props.cellsV"].
+     */
+    public static resolvePropertyPaths(targetObj: object, propertyPath: string): string[]
+    {
+        if (!this.isPropertyPathPattern(propertyPath)) return [propertyPath];
+        const resolvedPaths: string[] = [];
+        this.resolvePathSegments(targetObj, this.splitPropertyPath(propertyPath), 0, [], resolvedPaths);
+        return resolvedPaths;
+    }
+
+    private static resolvePathSegments(currentObj: any, segments: string[], segmentIndex: number, resolvedSegments: string[], resolvedPaths: string[]): void
+    {
+        if (segmentIndex === segments.length)
+        {
+            resolvedPaths.push(resolvedSegments.join("."));
+            return;
+        }
+        if (currentObj == null || typeof currentObj !== "object") return;
+        const segment = segments[segmentIndex];
+        const predicate = /^([^[]+)\[([^=]+)=(.*)\]$/.exec(segment);
+        if (segment === "*")
+        {
+            for (const key of Object.keys(currentObj))
+                this.resolvePathSegments(currentObj[key], segments, segmentIndex + 1, [...resolvedSegments, key], resolvedPaths);
+        }
+        else if (predicate != null)
+        {
+            const [, property, predicateKey, predicateValue] = predicate;
+            const elements = currentObj[property];
+            if (elements == null || typeof elements !== "object") return;
+            for (const key of Object.keys(elements))
+            {
+                let elementValue: any;
+                try 
+                {
+                    elementValue = this.getNestedProperty(elements[key], predicateKey);
+                }
+                catch (error) 
+                {
+                    // Element doesn't have the predicate key
+                    continue;
+                }
+                // Predicate values are written without quotes, so compare them as strings
+                if (elementValue !== undefined && `${elementValue}` === predicateValue)
+                    this.resolvePathSegments(elements[key], segments, segmentIndex + 1, [...resolvedSegments, property, key], resolvedPaths);
+            }
+        }
+        else
+        {
+            this.resolvePathSegments(currentObj[segment], segments, segmentIndex + 1, [...resolvedSegments, segment], resolvedPaths);
+        }
+    }
+
+    /**
+     * Replaces pattern keys of a source object with the concrete paths they resolve to in the target object, every concrete path gets the pattern's value.
+     * Keys which don't resolve into any path are kept as they are.
+     * @param targetObj Target object to resolve the paths in.
+     * @param sourceObj Source object, e.g. a "multiply" block.
+     * @returns New source object with concrete keys.
+     */
+    public static expandPropertyPaths(targetObj: object, sourceObj: object): object
+    {
+        const expandedObj = {};
+        for (const parameter in sourceObj)
+        {
+            let resolvedPaths: string[];
+            try 
+            {
+                resolvedPaths = this.resolvePropertyPaths(targetObj, parameter);
+            }
+            catch (error) 
+            {
+                resolvedPaths = [];
+            }
+            for (const resolvedPath of resolvedPaths.length > 0 ? resolvedPaths : [parameter])
+                expandedObj[resolvedPath] = sourceObj[parameter];
+        }
+        return expandedObj;
+    }
+
     public static filterObjectProperties(targetObj: object, predicate: (key: string) => boolean): object
     {
         return Object.keys(targetObj).reduce((accum, key) => 
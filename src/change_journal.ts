@@ -0,0 +1,115 @@
+import fs from "fs";
+import path from "path";
+
+type ChangeJournalEntry = {
+    itemId: string;
+    itemName: string;
+    property: string;
+    operation: string;
+    oldValue: any;
+    newValue: any;
+    source: string;
+}
+
+/**
+ * Machine-readable record of every change applied to items. Written as JSON and CSV after each run
+ * so balance passes can be diffed between releases.
+ *
+ * The applicator records changes into the current source, which is set with setSource before each item is processed.
+ */
+class ChangeJournal
+{
+    private entries: ChangeJournalEntry[];
+    private itemId: string;
+    private itemName: string;
+    private source: string;
+    private propertyPrefix: string;
+
+    /**
+     * @param entries Optional entries to start with, e.g. changes made on startup which every run should include.
+     */
+    constructor(entries: ChangeJournalEntry[] = [])
+    {
+        this.entries = [...entries];
+    }
+
+    /**
+     * Sets the item and the selector (or overwrite) which the following records belong to.
+     * @param itemId Item ID.
+     * @param itemName Item "_name".
+     * @param source Name of the selector or overwrite which makes the changes.
+     * @param propertyPrefix Optional prefix of recorded properties, e.g. "traderAssort.<traderId>.<assortId>." for assort offers.
+     */
+    public setSource(itemId: string, itemName: string, source: string, propertyPrefix = ""): void
+    {
+        this.itemId = itemId;
+        this.itemName = itemName;
+        this.source = source;
+        this.propertyPrefix = propertyPrefix;
+    }
+
+    /**
+     * Records a single property change for the current source.
+     * @param property Property path.
+     * @param operation Operation name, e.g. "multiply" or "set".
+     * @param oldValue Value before the change.
+     * @param newValue Value after the change.
+     */
+    public record(property: string, operation: string, oldValue: any, newValue: any): void
+    {
+        this.entries.push({
+            itemId: this.itemId,
+            itemName: this.itemName,
+            property: this.propertyPrefix + property,
+            operation: operation,
+            // Clone values, arrays and objects might be changed later on
+            oldValue: oldValue === undefined ? undefined : JSON.parse(JSON.stringify(oldValue)),
+            newValue: newValue === undefined ? undefined : JSON.parse(JSON.stringify(newValue)),
+            source: this.source
+        });
+    }
+
+    public getEntries(): ChangeJournalEntry[]
+    {
+        return this.entries;
+    }
+
+    public toJson(dryRun: boolean): string
+    {
+        return JSON.stringify({
+            generated: new Date().toISOString(),
+            dryRun: dryRun,
+            changes: this.entries
+        }, null, 4);
+    }
+
+    public toCsv(): string
+    {
+        const escape = (value: any): string =>
+        {
+            const text = typeof value === "string" ? value : JSON.stringify(value) ?? "";
+            return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+        };
+        const header = ["itemId", "itemName", "property", "operation", "oldValue", "newValue", "source"];
+        const rows = this.entries.map(entry => header.map(column => escape(entry[column])).join(","));
+        return [header.join(","), ...rows].join("\n") + "\n";
+    }
+
+    /**
+     * Writes "change_journal.json" and "change_journal.csv" into the directory.
+     * @param directory Output directory, created if missing.
+     * @param dryRun Whether the changes were only evaluated, saved in the JSON file.
+     * @returns Array of written file paths.
+     */
+    public write(directory: string, dryRun: boolean): string[]
+    {
+        fs.mkdirSync(directory, { recursive: true });
+        const jsonPath = path.join(directory, "change_journal.json");
+        const csvPath = path.join(directory, "change_journal.csv");
+        fs.writeFileSync(jsonPath, this.toJson(dryRun));
+        fs.writeFileSync(csvPath, this.toCsv());
+        return [jsonPath, csvPath];
+    }
+}
+
+export { ChangeJournal, ChangeJournalEntry };
@@ -0,0 +1,229 @@
+import fs from "fs";
+import path from "path";
+
+import modConfig from "../config/config.json";
+
+import { ConsoleLogger } from "./console_logger";
+import { LogLevel, VerboseLogger } from "./verbose_logger";
+import { LogFile } from "./log_file";
+import { ChangeJournal } from "./change_journal";
+import { Applicator } from "./applicator";
+import { Query, QueryTables } from "./query";
+import { ConflictPolicy, Overwrite, Selector, SelectorPipeline } from "./selector_pipeline";
+import { Clone, ItemCloner } from "./item_cloner";
+import { ConfigLoader, LoadedConfig } from "./config_loader";
+import { PropertyCatalog } from "./property_catalog";
+
+const usage = `Item Tweaker CLI - runs selectors against an exported items.json without the server.
+
+Usage:
+    npm run cli -- <command> [options]
+
+Commands:
+    match <selector>        List items matched and affected by a selector. <selector> is a selector name or a path to a JSON file with a single selector.
+    apply --out <file>      Apply all selectors and overwrites, write the patched items and the change journal.
+    conflicts               Report per-item property conflicts between selectors. Exits with code 1 if there are any.
+    catalog --out <dir>     Write the category tree and every "_props" key per category with it's types and values.
+
+Options:
+    --items <file>          Items dump (default: items.json)
+    --selectors <file>      Selectors, along with every file in the "selectors" directory next to it (default: config/dynamic_selectors.json)
+    --overwrites <file>     Manual overwrites, along with every file in the "overwrites" directory next to it (default: config/manual_overwrite.json)
+    --clones <file>         Clones, created before selectors are run (default: config/clones.json)
+    --locale <file>         Global locale dump (e.g. locales/global/en.json) to resolve overwrites keyed by in-game names
+    --language <language>   Language of the locale (default: config.json "overwriteLanguage")
+    --policy <policy>       Conflict policy: priority, compose or error (default: config.json "conflictPolicy")
+    --enabled-tags <tags>   Comma separated selector tags to run, for "apply" and "conflicts" (default: config.json "enabledTags")
+    --disabled-tags <tags>  Comma separated selector tags to skip, for "apply" and "conflicts" (default: config.json "disabledTags")
+    --journal <directory>   Change journal directory for "apply" (default: journal)
+    --verbose               Show detailed change logs
+    --log-file <file>       Also write the log into a file, with the level and limits of config.json "logger"`;
+
+type CliOptions = {
+    command: string;
+    positional: string[];
+    items: string;
+    selectors: string;
+    overwrites: string;
+    clones: string;
+    locale?: string;
+    language: string;
+    policy: ConflictPolicy;
+    enabledTags: string[];
+    disabledTags: string[];
+    journal: string;
+    out?: string;
+    verbose: boolean;
+    logFile?: string;
+}
+
+function parseArguments(args: string[]): CliOptions
+{
+    const options: CliOptions = {
+        command: undefined,
+        positional: [],
+        items: "items.json",
+        selectors: path.join("config", "dynamic_selectors.json"),
+        overwrites: path.join("config", "manual_overwrite.json"),
+        clones: path.join("config", "clones.json"),
+        language: modConfig.overwriteLanguage ?? "en",
+        policy: (modConfig.conflictPolicy ?? "priority") as ConflictPolicy,
+        enabledTags: modConfig.enabledTags ?? [],
+        disabledTags: modConfig.disabledTags ?? [],
+        journal: "journal",
+        verbose: false
+    };
+    for (let index = 0; index < args.length; ++index)
+    {
+        const argument = args[index];
+        switch (argument)
+        {
+            case "--items": options.items = args[++index]; break;
+            case "--selectors": options.selectors = args[++index]; break;
+            case "--overwrites": options.overwrites = args[++index]; break;
+            case "--clones": options.clones = args[++index]; break;
+            case "--locale": options.locale = args[++index]; break;
+            case "--language": options.language = args[++index]; break;
+            case "--policy": options.policy = args[++index] as ConflictPolicy; break;
+            case "--enabled-tags": options.enabledTags = splitList(args[++index]); break;
+            case "--disabled-tags": options.disabledTags = splitList(args[++index]); break;
+            case "--journal": options.journal = args[++index]; break;
+            case "--out": options.out = args[++index]; break;
+            case "--verbose": options.verbose = true; break;
+            case "--log-file": options.logFile = args[++index]; break;
+            default:
+                if (argument.startsWith("--")) throw `Unknown option "${argument}"`;
+                if (options.command === undefined) options.command = argument;
+                else options.positional.push(argument);
+        }
+    }
+    return options;
+}
+
+function splitList(list: string): string[]
+{
+    return (list ?? "").split(",").map(element => element.trim()).filter(element => element !== "");
+}
+
+function readJson(filePath: string): any
+{
+    return JSON.parse(fs.readFileSync(filePath, "utf8"));
+}
+
+/**
+ * Reads an items dump. Accepts the database "items.json" as well as a client response wrapped in "data".
+ */
+function readItems(filePath: string): Record<string, any>
+{
+    const dump = readJson(filePath);
+    return dump.data != null && dump.data._id === undefined ? dump.data : dump;
+}
+
+/**
+ * Loads a main config file and every file in the directory next to it, the same way the mod loads them from it's config directory.
+ */
+function loadConfig<T>(logger: VerboseLogger, kind: string, filePath: string): LoadedConfig<T>
+{
+    const configDirectory = path.dirname(path.resolve(filePath));
+    return new ConfigLoader(logger, configDirectory).load<T>(kind, path.basename(filePath), kind);
+}
+
+function getActiveSelectors(pipeline: SelectorPipeline, selectors: Record<string, Selector>, options: CliOptions): Record<string, Selector>
+{
+    const activeSelectors = pipeline.filterSelectors(selectors, options);
+    pipeline.reportSkippedSelectors(activeSelectors.skipped);
+    return activeSelectors.selectors;
+}
+
+function main(args: string[]): number
+{
+    const options = parseArguments(args);
+    if (options.command === undefined || options.command === "help")
+    {
+        console.log(usage);
+        return options.command === undefined ? 1 : 0;
+    }
+
+    const loggerConfig = modConfig.logger;
+    const consoleLogger = new ConsoleLogger();
+    const logFile = options.logFile !== undefined ?
+        new LogFile(consoleLogger, options.logFile, (loggerConfig.fileLevel ?? "verbose") as LogLevel, (loggerConfig.fileMaxSizeKb ?? 1024) * 1024, loggerConfig.fileCount ?? 3) :
+        undefined;
+    const logger = new VerboseLogger(consoleLogger, options.verbose || VerboseLogger.getConfiguredLevel(), logFile);
+    const journal = new ChangeJournal();
+    const applicator = new Applicator(logger, journal);
+    const dbItems = readItems(options.items);
+    const locales = options.locale !== undefined ? { global: { [options.language]: readJson(options.locale) } } : undefined;
+    const tables: QueryTables = { templates: { items: dbItems }, locales: locales };
+    const clones: Record<string, Clone> = fs.existsSync(options.clones) ? readJson(options.clones) : {};
+    new ItemCloner(logger, applicator, journal).cloneAll(tables, clones);
+    const queryContext = Query.createContext(tables);
+    const pipeline = new SelectorPipeline(logger, applicator, journal, queryContext);
+    const loadedSelectors = loadConfig<Selector>(logger, "selectors", options.selectors);
+    const loadedOverwrites = loadConfig<Overwrite>(logger, "overwrites", options.overwrites);
+    const allSelectors = loadedSelectors.entries;
+    const overwrites = loadedOverwrites.entries;
+    pipeline.setConfigFiles(loadedSelectors.origins, loadedOverwrites.origins);
+
+    switch (options.command)
+    {
+        case "match":
+        {
+            const selectorArgument = options.positional[0];
+            if (selectorArgument === undefined) throw "\"match\" requires a selector name or file";
+            // A selector requested by name runs even if it's disabled
+            const selector: Selector = selectorArgument.endsWith(".json") ? readJson(selectorArgument) : allSelectors[selectorArgument];
+            if (selector === undefined) throw `Selector "${selectorArgument}" not found in ${options.selectors}`;
+
+            const selectorMeta = pipeline.getSelectorMetaData(dbItems, selector, selectorArgument);
+            if (!selectorMeta.isValid) return 1;
+            for (const itemId of selectorMeta.matchingIds)
+            {
+                const affectedMark = selectorMeta.affectedIds.includes(itemId) ? "affected" : "matched";
+                console.log(`${itemId}  ${affectedMark.padEnd(8)}  ${dbItems[itemId]._name}`);
+            }
+            console.log(`"${selectorArgument}": ${selectorMeta.matchingIds.length} matching items, ${selectorMeta.affectedIds.length} affected items`);
+            return 0;
+        }
+        case "apply":
+        {
+            if (options.out === undefined) throw "\"apply\" requires --out <file>";
+            const selectors = getActiveSelectors(pipeline, allSelectors, options);
+            pipeline.run(dbItems, selectors, overwrites, options.policy, options.language);
+            fs.writeFileSync(options.out, JSON.stringify(dbItems, null, 4));
+            const journalPaths = journal.write(options.journal, false);
+            console.log(`Patched items written to ${options.out}, change journal with ${journal.getEntries().length} changes written to ${journalPaths.join(", ")}`);
+            return 0;
+        }
+        case "conflicts":
+        {
+            const selectors = getActiveSelectors(pipeline, allSelectors, options);
+            const selectorsMetaData = pipeline.collectSelectorsMetaData(dbItems, selectors);
+            const overwritesMetaData = pipeline.collectOverwritesMetaData(dbItems, overwrites, options.language);
+            const conflicts = pipeline.getPropertyConflicts(pipeline.getOrderedSelectorKeys(selectorsMetaData), selectorsMetaData, overwritesMetaData);
+            pipeline.reportPropertyConflicts(dbItems, conflicts, options.policy, selectorsMetaData);
+            const unresolvedCount = conflicts.filter(conflict => !conflict.resolvedByOverwrite).length;
+            console.log(`${unresolvedCount} unresolved property conflicts`);
+            return unresolvedCount > 0 ? 1 : 0;
+        }
+        case "catalog":
+        {
+            if (options.out === undefined) throw "\"catalog\" requires --out <directory>";
+            const catalogPaths = new PropertyCatalog(dbItems).write(options.out);
+            console.log(`Property catalog written to ${catalogPaths.join(", ")}`);
+            return 0;
+        }
+        default:
+            throw `Unknown command "${options.command}"`;
+    }
+}
+
+try
+{
+    process.exitCode = main(process.argv.slice(2));
+}
+catch (error)
+{
+    console.error(`[ERROR] ${error}`);
+    process.exitCode = 1;
+}
@@ -0,0 +1,141 @@
+import fs from "fs";
+import path from "path";
+
+import { VerboseLogger } from "./verbose_logger";
+
+/**
+ * Entries of a config kind merged from several files, with the file every entry comes from.
+ */
+type LoadedConfig<T> = {
+    entries: Record<string, T>;
+    // Entry key -> file path relative to the config directory, e.g. "selectors/ammo.json"
+    origins: Map<string, string>;
+}
+
+/**
+ * Reads selectors and overwrites at runtime from a main file (e.g. "dynamic_selectors.json") and every "*.json" file in a directory
+ * (e.g. "selectors/"), so a team can split tweaks into several files. Files are loaded in this order:
+ * - the main file;
+ * - directory files and files in it's subdirectories, sorted by their relative path.
+ *
+ * A file can have an "include" array of file paths (relative to the file) with shared fragments. Included files are loaded before the
+ * entries of the including file. Every file is loaded once, so including a file which was already loaded does nothing.
+ * If a key is defined in several files the first definition is used and the others are reported.
+ */
+class ConfigLoader
+{
+    private logger: VerboseLogger;
+    private configDirectory: string;
+
+    constructor(logger: VerboseLogger, configDirectory: string)
+    {
+        this.logger = logger;
+        this.configDirectory = configDirectory;
+    }
+
+    /**
+     * Loads every entry of a config kind. Throws with the file name if a file can't be read or parsed.
+     * @param kind Config kind used in messages, e.g. "selectors" or "overwrites".
+     * @param mainFile Main file path, relative to the config directory or absolute. Skipped if missing.
+     * @param directory Optional directory path, relative to the config directory or absolute. Skipped if missing.
+     * @returns Merged entries with their files of origin.
+     */
+    public load<T>(kind: string, mainFile: string, directory?: string): LoadedConfig<T>
+    {
+        const loadedConfig: LoadedConfig<T> = { entries: {}, origins: new Map<string, string>() };
+        const loadedFiles = new Set<string>();
+        const filePaths = [path.resolve(this.configDirectory, mainFile)];
+        if (directory !== undefined)
+            filePaths.push(...this.getJsonFiles(path.resolve(this.configDirectory, directory)));
+        for (const filePath of filePaths.filter(element => fs.existsSync(element)))
+            this.loadFile(kind, filePath, loadedConfig, loadedFiles);
+        return loadedConfig;
+    }
+
+    /**
+     * Gets a path relative to the config directory with forward slashes, as it's shown in messages.
+     * @param filePath Absolute file path.
+     * @returns Relative file path.
+     */
+    public getRelativePath(filePath: string): string
+    {
+        return path.relative(this.configDirectory, filePath).split(path.sep).join("/");
+    }
+
+    private loadFile<T>(kind: string, filePath: string, loadedConfig: LoadedConfig<T>, loadedFiles: Set<string>): void
+    {
+        if (loadedFiles.has(filePath)) return;
+        loadedFiles.add(filePath);
+        const relativePath = this.getRelativePath(filePath);
+        let content: any;
+        try
+        {
+            content = JSON.parse(fs.readFileSync(filePath, "utf8"));
+        }
+        catch (error)
+        {
+            throw `${relativePath}: ${error}`;
+        }
+        if (content == null || typeof content !== "object" || Array.isArray(content))
+            throw `${relativePath}: expected an object of ${kind}`;
+
+        if (content.include !== undefined)
+        {
+            if (!Array.isArray(content.include) || content.include.some(include => typeof include !== "string"))
+                throw `${relativePath}: "include" has to be an array of file paths`;
+            for (const include of content.include)
+            {
+                const includePath = path.resolve(path.dirname(filePath), include);
+                if (!fs.existsSync(includePath))
+                    throw `${relativePath}: included file "${include}" doesn't exist`;
+                this.loadFile(kind, includePath, loadedConfig, loadedFiles);
+            }
+        }
+
+        const entries = { ...content };
+        delete entries.include;
+        this.merge(kind, loadedConfig, entries, relativePath);
+    }
+
+    /**
+     * Adds entries to loaded ones. Keys which are already loaded keep their first definition, duplicates are reported.
+     * @param kind Config kind used in messages, e.g. "selectors" or "overwrites".
+     * @param loadedConfig Loaded entries to add to.
+     * @param entries Entries to add.
+     * @param origin File (or other origin, e.g. "api:<mod name>") the entries come from.
+     */
+    public merge<T>(kind: string, loadedConfig: LoadedConfig<T>, entries: Record<string, T>, origin: string): void
+    {
+        for (const key of Object.keys(entries))
+        {
+            if (loadedConfig.origins.has(key))
+            {
+                this.logger.explicitWarning(`[WARNING] ${kind}.${key} in ${origin} is already defined in ${loadedConfig.origins.get(key)}, the duplicate is skipped.`);
+                continue;
+            }
+            loadedConfig.entries[key] = entries[key];
+            loadedConfig.origins.set(key, origin);
+        }
+    }
+
+    /**
+     * Gets every "*.json" file in a directory and it's subdirectories, sorted by relative path.
+     */
+    private getJsonFiles(directory: string): string[]
+    {
+        if (!fs.existsSync(directory)) return [];
+        const filePaths: string[] = [];
+        for (const entry of fs.readdirSync(directory, { withFileTypes: true }))
+        {
+            const entryPath = path.join(directory, entry.name);
+            if (entry.isDirectory())
+                filePaths.push(...this.getJsonFiles(entryPath));
+            else if (entry.name.endsWith(".json"))
+                filePaths.push(entryPath);
+        }
+        // Plain code unit order, so the order doesn't depend on the system locale
+        return filePaths.sort((first, second) => this.getRelativePath(first) < this.getRelativePath(second) ? -1 : 1);
+    }
+}
+
+export { ConfigLoader, LoadedConfig };
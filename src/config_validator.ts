@@ -0,0 +1,428 @@
+import { VerboseLogger } from "./verbose_logger";
+import { Query } from "./query";
+import { Formula } from "./formula";
+import { Applicator } from "./applicator";
+
+/**
+ * A single problem found in a config. "path" points to the problematic value, e.g. "selectors.scarl_tweaks.query.expressions[1].operation".
+ * Errors make the selector (overwrite, clone) invalid, warnings are only reported.
+ */
+type ValidationIssue = {
+    path: string;
+    message: string;
+    severity: "error" | "warning";
+}
+
+type ValueType = "string" | "number" | "boolean" | "object" | "array";
+
+/**
+ * Utility class which validates the structure of configs: selectors with their query expressions, manual overwrites, clones and "config.json".
+ * Only checks the structure and value types, whether items can be found is up to the caller.
+ * The same rules are available for editors as JSON Schema files in "config/schemas".
+ */
+class ConfigValidator
+{
+    private static changeBlocks = ["multiply", "set", "add", "remove", "clamp", "floor_at", "cap_at"];
+    private static selectorKeys = ["query", "priority", "target", "traders", "round", "enabled", "description", "tags", "logLevel", ...ConfigValidator.changeBlocks];
+    private static basicExpressionKeys = ["key", "operation", "values", "negation", "strict", "flags"];
+    private static logicalExpressionKeys = ["condition", "expressions", "negation"];
+    private static quantifiedExpressionKeys = ["key", "quantifier", "expression", "negation"];
+
+    /**
+     * Validates a selector.
+     * @param selector Selector to validate.
+     * @param path Path of the selector, e.g. "selectors.scarl_tweaks".
+     * @returns Array of found issues.
+     */
+    public static validateSelector(selector: any, path: string): ValidationIssue[]
+    {
+        const issues: ValidationIssue[] = [];
+        if (!this.checkType(selector, "object", path, issues)) return issues;
+        this.checkUnknownKeys(selector, this.selectorKeys, path, issues);
+        if (selector.query === undefined)
+            this.addError(issues, `${path}.query`, "missing required property");
+        else
+            issues.push(...this.validateExpression(selector.query, `${path}.query`));
+        this.validateChangeBlocks(selector, path, issues);
+        this.checkOptionalType(selector.priority, "number", `${path}.priority`, issues);
+        this.checkOptionalEnum(selector.target, ["items", "traderAssort"], `${path}.target`, issues);
+        if (this.checkOptionalType(selector.traders, "array", `${path}.traders`, issues) && selector.traders !== undefined)
+            selector.traders.forEach((trader, index) => this.checkType(trader, "string", `${path}.traders[${index}]`, issues));
+        this.checkOptionalType(selector.enabled, "boolean", `${path}.enabled`, issues);
+        this.checkOptionalType(selector.description, "string", `${path}.description`, issues);
+        this.checkOptionalStringArray(selector.tags, `${path}.tags`, issues);
+        this.checkOptionalEnum(selector.logLevel, VerboseLogger.levels, `${path}.logLevel`, issues);
+        return issues;
+    }
+
+    /**
+     * Validates a query expression and every nested expression.
+     * @param expression Expression to validate.
+     * @param path Path of the expression, e.g. "selectors.scarl_tweaks.query".
+     * @returns Array of found issues.
+     */
+    public static validateExpression(expression: any, path: string): ValidationIssue[]
+    {
+        const issues: ValidationIssue[] = [];
+        if (!this.checkType(expression, "object", path, issues)) return issues;
+        const isQuantified = expression.quantifier !== undefined;
+        const isBasic = expression.key !== undefined && !isQuantified;
+        const isLogical = expression.condition !== undefined;
+        if ((isBasic || isQuantified) && isLogical)
+        {
+            this.addError(issues, path, "expression can't have both \"key\" and \"condition\"");
+        }
+        else if (isQuantified)
+        {
+            this.checkUnknownKeys(expression, this.quantifiedExpressionKeys, path, issues);
+            this.checkRequiredType(expression, "key", "string", path, issues);
+            this.checkOptionalEnum(expression.quantifier, ["any", "all"], `${path}.quantifier`, issues);
+            this.checkOptionalType(expression.negation, "boolean", `${path}.negation`, issues);
+            if (expression.expression === undefined)
+                this.addError(issues, `${path}.expression`, "missing required property");
+            else
+                issues.push(...this.validateExpression(expression.expression, `${path}.expression`));
+        }
+        else if (isBasic)
+        {
+            this.checkUnknownKeys(expression, this.basicExpressionKeys, path, issues);
+            this.checkType(expression.key, "string", `${path}.key`, issues);
+            const isKnownOperation = this.checkOptionalEnum(expression.operation, Query.operations, `${path}.operation`, issues);
+            if (expression.values === undefined)
+                this.addError(issues, `${path}.values`, "missing required property");
+            else if (this.checkType(expression.values, "array", `${path}.values`, issues) && isKnownOperation)
+                this.validateExpressionValues(expression, path, issues);
+            this.checkOptionalType(expression.negation, "boolean", `${path}.negation`, issues);
+            this.checkOptionalType(expression.strict, "boolean", `${path}.strict`, issues);
+            if (this.checkOptionalType(expression.flags, "string", `${path}.flags`, issues) && expression.flags !== undefined)
+            {
+                if (expression.operation !== "regex")
+                    issues.push({ path: `${path}.flags`, message: "only used by the \"regex\" operation, it's ignored", severity: "warning" });
+                else if (!/^[gimsuy]*$/.test(expression.flags) || new Set(expression.flags).size !== expression.flags.length)
+                    this.addError(issues, `${path}.flags`, `invalid regex flags "${expression.flags}"`);
+            }
+        }
+        else if (isLogical)
+        {
+            this.checkUnknownKeys(expression, this.logicalExpressionKeys, path, issues);
+            this.checkOptionalEnum(expression.condition, ["and", "or"], `${path}.condition`, issues);
+            this.checkOptionalType(expression.negation, "boolean", `${path}.negation`, issues);
+            if (expression.expressions === undefined)
+                this.addError(issues, `${path}.expressions`, "missing required property");
+            else if (this.checkType(expression.expressions, "array", `${path}.expressions`, issues))
+                expression.expressions.forEach((subExpression, index) => issues.push(...this.validateExpression(subExpression, `${path}.expressions[${index}]`)));
+        }
+        else
+        {
+            this.addError(issues, path, "expression must have either \"key\" (basic or quantified expression) or \"condition\" (logical expression)");
+        }
+        return issues;
+    }
+
+    /**
+     * Validates a manual overwrite.
+     * @param overwrite Overwrite to validate.
+     * @param path Path of the overwrite, e.g. "overwrites.helmet_altyn".
+     * @returns Array of found issues.
+     */
+    public static validateOverwrite(overwrite: any, path: string): ValidationIssue[]
+    {
+        const issues: ValidationIssue[] = [];
+        if (!this.checkType(overwrite, "object", path, issues)) return issues;
+        this.checkUnknownKeys(overwrite, [...this.changeBlocks, "round"], path, issues);
+        this.validateChangeBlocks(overwrite, path, issues);
+        return issues;
+    }
+
+    /**
+     * Validates a clone.
+     * @param clone Clone to validate.
+     * @param path Path of the clone, e.g. "clones.medkit_salewa_lite".
+     * @returns Array of found issues.
+     */
+    public static validateClone(clone: any, path: string): ValidationIssue[]
+    {
+        const issues: ValidationIssue[] = [];
+        if (!this.checkType(clone, "object", path, issues)) return issues;
+        this.checkUnknownKeys(clone, ["source", "id", "multiply", "set", "locales", "handbook", "price", "trader"], path, issues);
+        this.checkRequiredType(clone, "source", "string", path, issues);
+        this.checkRequiredType(clone, "id", "string", path, issues);
+        this.checkOptionalType(clone.multiply, "object", `${path}.multiply`, issues);
+        if (this.checkOptionalType(clone.set, "object", `${path}.set`, issues) && clone.set !== undefined)
+            this.validateFormulas(clone.set, `${path}.set`, issues);
+        if (this.checkOptionalType(clone.locales, "object", `${path}.locales`, issues) && clone.locales !== undefined)
+        {
+            for (const language in clone.locales)
+            {
+                const localePath = `${path}.locales.${language}`;
+                if (!this.checkType(clone.locales[language], "object", localePath, issues)) continue;
+                this.checkUnknownKeys(clone.locales[language], ["Name", "ShortName", "Description"], localePath, issues);
+                for (const property of ["Name", "ShortName", "Description"])
+                    this.checkOptionalType(clone.locales[language][property], "string", `${localePath}.${property}`, issues);
+            }
+        }
+        if (this.checkOptionalType(clone.handbook, "object", `${path}.handbook`, issues) && clone.handbook !== undefined)
+        {
+            this.checkUnknownKeys(clone.handbook, ["ParentId", "Price"], `${path}.handbook`, issues);
+            this.checkOptionalType(clone.handbook.ParentId, "string", `${path}.handbook.ParentId`, issues);
+            this.checkOptionalType(clone.handbook.Price, "number", `${path}.handbook.Price`, issues);
+        }
+        this.checkOptionalType(clone.price, "number", `${path}.price`, issues);
+        if (this.checkOptionalType(clone.trader, "object", `${path}.trader`, issues) && clone.trader !== undefined)
+        {
+            const traderPath = `${path}.trader`;
+            this.checkUnknownKeys(clone.trader, ["trader", "loyaltyLevel", "price", "currency", "stockCount", "unlimitedCount", "buyRestrictionMax"], traderPath, issues);
+            this.checkRequiredType(clone.trader, "trader", "string", traderPath, issues);
+            this.checkRequiredType(clone.trader, "price", "number", traderPath, issues);
+            this.checkOptionalType(clone.trader.currency, "string", `${traderPath}.currency`, issues);
+            for (const property of ["loyaltyLevel", "stockCount", "buyRestrictionMax"])
+                this.checkOptionalType(clone.trader[property], "number", `${traderPath}.${property}`, issues);
+            this.checkOptionalType(clone.trader.unlimitedCount, "boolean", `${traderPath}.unlimitedCount`, issues);
+        }
+        return issues;
+    }
+
+    /**
+     * Validates "config.json".
+     * @param config Mod config.
+     * @param path Path of the config, e.g. "config".
+     * @returns Array of found issues.
+     */
+    public static validateModConfig(config: any, path: string): ValidationIssue[]
+    {
+        const issues: ValidationIssue[] = [];
+        if (!this.checkType(config, "object", path, issues)) return issues;
+        this.checkUnknownKeys(config, ["logger", "conflictPolicy", "dryRun", "overwriteLanguage", "hotReload", "generateCatalog", "enabledTags", "disabledTags"], path, issues);
+        if (this.checkOptionalType(config.logger, "object", `${path}.logger`, issues) && config.logger !== undefined)
+        {
+            this.checkUnknownKeys(config.logger, ["verbose", "level", "fileLevel", "fileMaxSizeKb", "fileCount"], `${path}.logger`, issues);
+            this.checkOptionalType(config.logger.verbose, "boolean", `${path}.logger.verbose`, issues);
+            this.checkOptionalEnum(config.logger.level, VerboseLogger.levels, `${path}.logger.level`, issues);
+            this.checkOptionalEnum(config.logger.fileLevel, VerboseLogger.levels, `${path}.logger.fileLevel`, issues);
+            for (const key of ["fileMaxSizeKb", "fileCount"])
+            {
+                if (this.checkOptionalType(config.logger[key], "number", `${path}.logger.${key}`, issues) && config.logger[key] < (key === "fileCount" ? 0 : 1))
+                    this.addError(issues, `${path}.logger.${key}`, `has to be ${key === "fileCount" ? "0 or greater" : "greater than 0"}`);
+            }
+        }
+        this.checkOptionalEnum(config.conflictPolicy, ["priority", "compose", "error"], `${path}.conflictPolicy`, issues);
+        this.checkOptionalType(config.dryRun, "boolean", `${path}.dryRun`, issues);
+        this.checkOptionalType(config.overwriteLanguage, "string", `${path}.overwriteLanguage`, issues);
+        this.checkOptionalType(config.hotReload, "boolean", `${path}.hotReload`, issues);
+        this.checkOptionalType(config.generateCatalog, "boolean", `${path}.generateCatalog`, issues);
+        const hasEnabledTags = this.checkOptionalStringArray(config.enabledTags, `${path}.enabledTags`, issues) && config.enabledTags !== undefined;
+        const hasDisabledTags = this.checkOptionalStringArray(config.disabledTags, `${path}.disabledTags`, issues) && config.disabledTags !== undefined;
+        if (hasEnabledTags && hasDisabledTags)
+        {
+            for (const tag of config.enabledTags.filter(enabledTag => config.disabledTags.includes(enabledTag)))
+                issues.push({ path: `${path}.enabledTags`, message: `tag "${tag}" is in "disabledTags" as well, it's disabled`, severity: "warning" });
+        }
+        return issues;
+    }
+
+    /**
+     * Reports issues, every issue on it's own line.
+     * @param logger Logger to report with.
+     * @param issues Issues to report.
+     * @param fileName Optional name of the file the issues are in, e.g. "selectors/ammo.json".
+     */
+    public static report(logger: VerboseLogger, issues: ValidationIssue[], fileName?: string): void
+    {
+        const fileSuffix = fileName !== undefined ? ` [${fileName}]` : "";
+        for (const issue of issues)
+        {
+            if (issue.severity === "error")
+                logger.explicitError(`[ERROR] ${issue.path}: ${issue.message}${fileSuffix}`);
+            else
+                logger.explicitWarning(`[WARNING] ${issue.path}: ${issue.message}${fileSuffix}`);
+        }
+    }
+
+    public static hasErrors(issues: ValidationIssue[]): boolean
+    {
+        return issues.some(issue => issue.severity === "error");
+    }
+
+    private static validateChangeBlocks(target: any, path: string, issues: ValidationIssue[]): void
+    {
+        for (const block of this.changeBlocks)
+        {
+            if (!this.checkOptionalType(target[block], "object", `${path}.${block}`, issues) || target[block] === undefined) continue;
+            for (const property in target[block])
+            {
+                try 
+                {
+                    Applicator.splitPropertyPath(property);
+                }
+                catch (error) 
+                {
+                    this.addError(issues, `${path}.${block}.${property}`, `invalid property path: ${error}`);
+                }
+            }
+        }
+        if (this.getValueType(target.round) !== "boolean")
+            this.checkOptionalStringArray(target.round, `${path}.round`, issues);
+        if (this.getValueType(target.set) === "object")
+            this.validateFormulas(target.set, `${path}.set`, issues);
+        if (this.getValueType(target.add) === "object")
+        {
+            for (const property in target.add)
+            {
+                const valueType = this.getValueType(target.add[property]);
+                if (valueType !== "number" && valueType !== "array")
+                    this.addError(issues, `${path}.add.${property}`, `expected number or array, got ${valueType}`);
+            }
+        }
+        if (this.getValueType(target.clamp) === "object")
+        {
+            for (const property in target.clamp)
+            {
+                const clampPath = `${path}.clamp.${property}`;
+                const clamp = target.clamp[property];
+                if (!this.checkType(clamp, "object", clampPath, issues)) continue;
+                this.checkUnknownKeys(clamp, ["min", "max"], clampPath, issues);
+                const hasMin = this.checkOptionalType(clamp.min, "number", `${clampPath}.min`, issues) && clamp.min !== undefined;
+                const hasMax = this.checkOptionalType(clamp.max, "number", `${clampPath}.max`, issues) && clamp.max !== undefined;
+                if (clamp.min === undefined && clamp.max === undefined)
+                    this.addError(issues, clampPath, "expected \"min\" and/or \"max\"");
+                else if (hasMin && hasMax && clamp.min > clamp.max)
+                    this.addError(issues, clampPath, `"min" (${clamp.min}) is greater than "max" (${clamp.max})`);
+            }
+        }
+        for (const block of ["floor_at", "cap_at"])
+        {
+            if (this.getValueType(target[block]) !== "object") continue;
+            for (const property in target[block])
+                this.checkType(target[block][property], "number", `${path}.${block}.${property}`, issues);
+        }
+    }
+
+    /**
+     * Checks that expression values have the types the operation expects. Property types can only be checked during evaluation.
+     */
+    private static validateExpressionValues(expression: any, path: string, issues: ValidationIssue[]): void
+    {
+        const values: any[] = expression.values;
+        const checkValues = (valueType: ValueType): boolean => values.every((value, index) => this.checkType(value, valueType, `${path}.values[${index}]`, issues));
+        switch (expression.operation ?? "equals")
+        {
+            case "greater_than":
+            case "less_than":
+            case "greater_or_equal":
+            case "less_or_equal":
+                checkValues("number");
+                break;
+            case "between":
+                if (values.length !== 2)
+                    this.addError(issues, `${path}.values`, `"between" expects exactly two values [min, max], got ${values.length}`);
+                else if (checkValues("number") && values[0] > values[1])
+                    this.addError(issues, `${path}.values`, `min (${values[0]}) is greater than max (${values[1]})`);
+                break;
+            case "length_equals":
+            case "length_greater_than":
+                if (checkValues("number"))
+                {
+                    values.forEach((value, index) => 
+                    {
+                        if (!Number.isInteger(value) || value < 0)
+                            this.addError(issues, `${path}.values[${index}]`, `expected a non-negative integer length, got ${value}`);
+                    });
+                }
+                break;
+            case "starts_with":
+            case "ends_with":
+            case "descends_from":
+                checkValues("string");
+                break;
+            case "regex":
+                if (checkValues("string"))
+                {
+                    values.forEach((value, index) => 
+                    {
+                        try
+                        {
+                            new RegExp(value);
+                        }
+                        catch (error)
+                        {
+                            this.addError(issues, `${path}.values[${index}]`, `invalid regex: ${error.message}`);
+                        }
+                    });
+                }
+                break;
+            case "exists":
+                if (values.length > 1 || (values.length === 1 && this.getValueType(values[0]) !== "boolean"))
+                    this.addError(issues, `${path}.values`, "\"exists\" expects no values or a single boolean, [false] passes if the property is missing");
+                break;
+        }
+    }
+
+    private static validateFormulas(set: object, path: string, issues: ValidationIssue[]): void
+    {
+        for (const property of Object.keys(set).filter(property => Formula.isFormula(set[property])))
+        {
+            try
+            {
+                Formula.parse(set[property]);
+            }
+            catch (error)
+            {
+                this.addError(issues, `${path}.${property}`, `invalid formula: ${error}`);
+            }
+        }
+    }
+
+    private static getValueType(value: any): string
+    {
+        if (value === null) return "null";
+        if (Array.isArray(value)) return "array";
+        if (typeof value === "number" && Number.isNaN(value)) return "NaN";
+        return typeof value;
+    }
+
+    private static checkType(value: any, expectedType: ValueType, path: string, issues: ValidationIssue[]): boolean
+    {
+        const valueType = this.getValueType(value);
+        if (valueType === expectedType) return true;
+        this.addError(issues, path, `expected ${expectedType}, got ${valueType}`);
+        return false;
+    }
+
+    private static checkOptionalType(value: any, expectedType: ValueType, path: string, issues: ValidationIssue[]): boolean
+    {
+        return value === undefined || this.checkType(value, expectedType, path, issues);
+    }
+
+    private static checkRequiredType(target: any, property: string, expectedType: ValueType, path: string, issues: ValidationIssue[]): boolean
+    {
+        if (target[property] !== undefined) return this.checkType(target[property], expectedType, `${path}.${property}`, issues);
+        this.addError(issues, `${path}.${property}`, "missing required property");
+        return false;
+    }
+
+    private static checkOptionalStringArray(value: any, path: string, issues: ValidationIssue[]): boolean
+    {
+        if (!this.checkOptionalType(value, "array", path, issues)) return false;
+        return value === undefined || value.map((element, index) => this.checkType(element, "string", `${path}[${index}]`, issues)).every(isString => isString);
+    }
+
+    private static checkOptionalEnum(value: any, allowedValues: readonly string[], path: string, issues: ValidationIssue[]): boolean
+    {
+        if (value === undefined || allowedValues.includes(value)) return true;
+        this.addError(issues, path, `unknown value ${JSON.stringify(value)}, expected one of: ${allowedValues.map(allowedValue => `"${allowedValue}"`).join(", ")}`);
+        return false;
+    }
+
+    private static checkUnknownKeys(target: object, allowedKeys: string[], path: string, issues: ValidationIssue[]): void
+    {
+        for (const key of Object.keys(target).filter(key => !allowedKeys.includes(key)))
+            issues.push({ path: `${path}.${key}`, message: "unknown property, it's ignored", severity: "warning" });
+    }
+
+    private static addError(issues: ValidationIssue[], path: string, message: string): void
+    {
+        issues.push({ path: path, message: message, severity: "error" });
+    }
+}
+
+export { ConfigValidator, ValidationIssue };
@@ -0,0 +1,77 @@
+import { ILogger } from "@spt-aki/models/spt/utils/ILogger";
+
+/**
+ * Minimal console-backed ILogger for running Item Tweaker outside of the server, e.g. from the CLI.
+ * Understands the same color names as the server's LogTextColor/LogBackgroundColor and prints them as ANSI codes.
+ */
+class ConsoleLogger implements ILogger
+{
+    private static textColors: Record<string, number> = {
+        black: 30, red: 31, green: 32, yellow: 33, blue: 34, magenta: 35, cyan: 36, white: 37
+    };
+
+    private static backgroundColors: Record<string, number> = {
+        blackBG: 40, redBG: 41, greenBG: 42, yellowBG: 43, blueBG: 44, magentaBG: 45, cyanBG: 46, whiteBG: 47
+    };
+
+    private useColors: boolean;
+
+    constructor(useColors: boolean = process.stdout.isTTY ?? false)
+    {
+        this.useColors = useColors;
+    }
+
+    private colorize(text: string, color?: string, backgroundColor?: string): string
+    {
+        const codes = [ConsoleLogger.textColors[color], ConsoleLogger.backgroundColors[backgroundColor]].filter(code => code !== undefined);
+        if (!this.useColors || codes.length < 1) return text;
+        return `\x1b[${codes.join(";")}m${text}\x1b[0m`;
+    }
+
+    private stringify(data: unknown): string
+    {
+        return typeof data === "string" ? data : JSON.stringify(data);
+    }
+
+    public writeToLogFile(): void
+    {
+        // Console only
+    }
+
+    public log(data: string | Record<string, unknown> | Error, color: string, backgroundColor?: string): void
+    {
+        console.log(this.colorize(data instanceof Error ? data.message : this.stringify(data), color, backgroundColor));
+    }
+
+    public logWithColor(data: string | Record<string, unknown>, textColor: string, backgroundColor?: string): void
+    {
+        console.log(this.colorize(this.stringify(data), textColor, backgroundColor));
+    }
+
+    public error(data: string): void
+    {
+        console.error(this.colorize(data, "red"));
+    }
+
+    public warning(data: string): void
+    {
+        console.warn(this.colorize(data, "yellow"));
+    }
+
+    public success(data: string): void
+    {
+        console.log(this.colorize(data, "green"));
+    }
+
+    public info(data: string): void
+    {
+        console.log(data);
+    }
+
+    public debug(data: string | Record<string, unknown>): void
+    {
+        console.debug(this.stringify(data));
+    }
+}
+
+export { ConsoleLogger };
@@ -0,0 +1,219 @@
+import { Applicator } from "./applicator";
+
+type FormulaNode =
+    | { type: "number", value: number }
+    | { type: "property", path: string }
+    | { type: "unary", operator: "-" | "+", operand: FormulaNode }
+    | { type: "binary", operator: "+" | "-" | "*" | "/" | "%", left: FormulaNode, right: FormulaNode }
+    | { type: "call", name: string, args: FormulaNode[] };
+
+type FormulaToken = {
+    type: "number" | "property" | "operator" | "(" | ")" | ",";
+    text: string;
+    position: number;
+}
+
+/**
+ * Small arithmetic expression language for computed "set" values, e.g. "=Weight * 0.5 + 0.1" or "=max(MaxDurability, 50)".
+ * Formulas start with "=" and are parsed into a tree, nothing is ever passed to eval. Supports:
+ * - numbers, "+", "-", "*", "/", "%" and parentheses;
+ * - property paths of the target object, e.g. "RecoilForceUp" or "Grids.0._props.cellsV";
+ * - functions "min(a, b, ...)", "max(a, b, ...)" and "round(value, digits = 0)".
+ */
+class Formula
+{
+    private static functions: Record<string, { minArgs: number, maxArgs: number, apply: (...args: number[]) => number }> = {
+        min: { minArgs: 1, maxArgs: Infinity, apply: (...args) => Math.min(...args) },
+        max: { minArgs: 1, maxArgs: Infinity, apply: (...args) => Math.max(...args) },
+        round: { minArgs: 1, maxArgs: 2, apply: (value, digits = 0) => Math.round(value * 10 ** digits) / 10 ** digits }
+    };
+
+    // Parsed formulas, the same formula is usually evaluated for many items
+    private static cache = new Map<string, FormulaNode>();
+
+    /**
+     * Checks if a value is a formula.
+     * @param value Value to check.
+     * @returns Boolean check result.
+     */
+    public static isFormula(value: any): value is string
+    {
+        return typeof value === "string" && value.startsWith("=");
+    }
+
+    /**
+     * Parses a formula. Throws a message with the position of the problem if the formula is malformed.
+     * @param formula Formula, starting with "=".
+     * @returns Formula tree.
+     */
+    public static parse(formula: string): FormulaNode
+    {
+        if (this.cache.has(formula)) return this.cache.get(formula);
+        const tokens = this.tokenize(formula.slice(1));
+        const state = { tokens: tokens, index: 0 };
+        const node = this.parseSum(state);
+        if (state.index < tokens.length)
+            throw `unexpected "${tokens[state.index].text}" at position ${tokens[state.index].position + 1} of formula "${formula}"`;
+        this.cache.set(formula, node);
+        return node;
+    }
+
+    /**
+     * Evaluates a formula against a target object.
+     * @param formula Formula, starting with "=".
+     * @param targetObj Object to resolve property paths in, e.g. item "_props".
+     * @returns Computed number.
+     */
+    public static evaluate(formula: string, targetObj: object): number
+    {
+        const result = this.evaluateNode(this.parse(formula), targetObj);
+        if (!Number.isFinite(result)) throw `formula "${formula}" evaluates to ${result}`;
+        return result;
+    }
+
+    private static tokenize(source: string): FormulaToken[]
+    {
+        const tokens: FormulaToken[] = [];
+        const tokenPattern = /\s*(?:(\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|\.\d+)|([A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z0-9_]+)*)|([+\-*/%])|([(),]))/y;
+        let position = 0;
+        while (position < source.length)
+        {
+            if (/^\s*$/.test(source.slice(position))) break;
+            tokenPattern.lastIndex = position;
+            const match = tokenPattern.exec(source);
+            if (match == null)
+            {
+                const errorPosition = source.length - source.slice(position).trimStart().length;
+                throw `unexpected "${source[errorPosition]}" at position ${errorPosition + 1} of formula "=${source}"`;
+            }
+            const tokenPosition = position + match[0].length - match[0].trimStart().length;
+            if (match[1] !== undefined) tokens.push({ type: "number", text: match[1], position: tokenPosition });
+            else if (match[2] !== undefined) tokens.push({ type: "property", text: match[2], position: tokenPosition });
+            else if (match[3] !== undefined) tokens.push({ type: "operator", text: match[3], position: tokenPosition });
+            else tokens.push({ type: match[4] as FormulaToken["type"], text: match[4], position: tokenPosition });
+            position = tokenPattern.lastIndex;
+        }
+        if (tokens.length < 1) throw "formula is empty";
+        return tokens;
+    }
+
+    // sum := product (("+" | "-") product)*
+    private static parseSum(state: { tokens: FormulaToken[], index: number }): FormulaNode
+    {
+        let node = this.parseProduct(state);
+        while (state.tokens[state.index]?.type === "operator" && ["+", "-"].includes(state.tokens[state.index].text))
+        {
+            const operator = state.tokens[state.index++].text as "+" | "-";
+            node = { type: "binary", operator: operator, left: node, right: this.parseProduct(state) };
+        }
+        return node;
+    }
+
+    // product := unary (("*" | "/" | "%") unary)*
+    private static parseProduct(state: { tokens: FormulaToken[], index: number }): FormulaNode
+    {
+        let node = this.parseUnary(state);
+        while (state.tokens[state.index]?.type === "operator" && ["*", "/", "%"].includes(state.tokens[state.index].text))
+        {
+            const operator = state.tokens[state.index++].text as "*" | "/" | "%";
+            node = { type: "binary", operator: operator, left: node, right: this.parseUnary(state) };
+        }
+        return node;
+    }
+
+    // unary := ("+" | "-") unary | primary
+    private static parseUnary(state: { tokens: FormulaToken[], index: number }): FormulaNode
+    {
+        const token = state.tokens[state.index];
+        if (token?.type === "operator" && (token.text === "-" || token.text === "+"))
+        {
+            ++state.index;
+            return { type: "unary", operator: token.text, operand: this.parseUnary(state) };
+        }
+        return this.parsePrimary(state);
+    }
+
+    // primary := number | property | function "(" sum ("," sum)* ")" | "(" sum ")"
+    private static parsePrimary(state: { tokens: FormulaToken[], index: number }): FormulaNode
+    {
+        const token = state.tokens[state.index++];
+        if (token === undefined) throw "formula ends unexpectedly";
+        switch (token.type)
+        {
+            case "number":
+                return { type: "number", value: Number(token.text) };
+            case "property":
+            {
+                if (state.tokens[state.index]?.type !== "(") return { type: "property", path: token.text };
+                // Own properties only, inherited names like "toString" aren't functions of the formula
+                const formulaFunction = Object.prototype.hasOwnProperty.call(this.functions, token.text) ? this.functions[token.text] : undefined;
+                if (formulaFunction === undefined)
+                    throw `unknown function "${token.text}" at position ${token.position + 1}, available functions: ${Object.keys(this.functions).join(", ")}`;
+                ++state.index;
+                const args = [this.parseSum(state)];
+                while (state.tokens[state.index]?.type === ",")
+                {
+                    ++state.index;
+                    args.push(this.parseSum(state));
+                }
+                this.expect(state, ")");
+                if (args.length < formulaFunction.minArgs || args.length > formulaFunction.maxArgs)
+                    throw `function "${token.text}" at position ${token.position + 1} doesn't take ${args.length} arguments`;
+                return { type: "call", name: token.text, args: args };
+            }
+            case "(":
+            {
+                const node = this.parseSum(state);
+                this.expect(state, ")");
+                return node;
+            }
+            default:
+                throw `unexpected "${token.text}" at position ${token.position + 1}`;
+        }
+    }
+
+    private static expect(state: { tokens: FormulaToken[], index: number }, tokenType: FormulaToken["type"]): void
+    {
+        const token = state.tokens[state.index++];
+        if (token?.type !== tokenType)
+            throw token === undefined ? `missing "${tokenType}" at the end of formula` : `expected "${tokenType}" at position ${token.position + 1}, got "${token.text}"`;
+    }
+
+    private static evaluateNode(node: FormulaNode, targetObj: object): number
+    {
+        switch (node.type)
+        {
+            case "number":
+                return node.value;
+            case "property":
+            {
+                const value = Applicator.getNestedProperty(targetObj, node.path);
+                if (typeof value !== "number") throw `formula property "${node.path}" is ${JSON.stringify(value)}, not a number`;
+                return value;
+            }
+            case "unary":
+            {
+                const operand = this.evaluateNode(node.operand, targetObj);
+                return node.operator === "-" ? -operand : operand;
+            }
+            case "binary":
+            {
+                const left = this.evaluateNode(node.left, targetObj);
+                const right = this.evaluateNode(node.right, targetObj);
+                switch (node.operator)
+                {
+                    case "+": return left + right;
+                    case "-": return left - right;
+                    case "*": return left * right;
+                    case "/": return left / right;
+                    case "%": return left % right;
+                }
+                break;
+            }
+            case "call":
+                return this.functions[node.name].apply(...node.args.map(arg => this.evaluateNode(arg, targetObj)));
+        }
+    }
+}
+
+export { Formula, FormulaNode };
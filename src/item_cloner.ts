@@ -0,0 +1,250 @@
+import crypto from "crypto";
+
+import { VerboseLogger } from "./verbose_logger";
+import { LogTextColor } from "./log_colors";
+import { ChangeJournal } from "./change_journal";
+import { Applicator, ApplicatorChangeType, ApplicatorLogFormat } from "./applicator";
+import { Query, QueryEnums, QueryTables } from "./query";
+import { ConfigValidator } from "./config_validator";
+
+type CloneLocale = {
+    Name?: string;
+    ShortName?: string;
+    Description?: string;
+}
+
+type CloneTraderOffer = {
+    // Trader nickname or ID
+    trader: string;
+    loyaltyLevel?: number;
+    price: number;
+    // Money enum key ("ROUBLES", "EUROS", "DOLLARS") or currency template ID, roubles by default
+    currency?: string;
+    stockCount?: number;
+    unlimitedCount?: boolean;
+    buyRestrictionMax?: number;
+}
+
+/**
+ * A new item template based on an existing one. Keyed by the "_name" of the new item.
+ */
+type Clone = {
+    // "_id" or "_name" of the source item
+    source: string;
+    id: string;
+    multiply?: object;
+    set?: object;
+    // Language -> locale strings. Languages without strings use "en" ones, missing strings are copied from the source item.
+    locales?: Record<string, CloneLocale>;
+    // Source item's handbook entry is copied by default
+    handbook?: {
+        ParentId?: string;
+        Price?: number;
+    };
+    // Flea market base price, source item's price by default
+    price?: number;
+    trader?: CloneTraderOffer;
+}
+
+/**
+ * Creates new item templates from existing items: changes their properties through the Applicator, adds locale strings, handbook entries, prices
+ * and trader offers, and makes every slot and container which accepts the source item accept the clone as well.
+ */
+class ItemCloner
+{
+    private static localeProperties = ["Name", "ShortName", "Description"];
+    // Properties holding slot and container filters of an item
+    private static filterProperties = ["Slots", "Chambers", "Cartridges", "Grids", "StackSlots"];
+
+    private logger: VerboseLogger;
+    private applicator: Applicator;
+    private journal: ChangeJournal;
+
+    constructor(logger: VerboseLogger, applicator: Applicator, journal: ChangeJournal)
+    {
+        this.logger = logger;
+        this.applicator = applicator;
+        this.journal = journal;
+    }
+
+    /**
+     * Creates every clone. Has to run before the query context is created, so clones can be matched by selectors.
+     * @param tables Database tables to add the clones to.
+     * @param clones Clones keyed by the new item "_name".
+     * @param enums Optional server enums (Traders, Money) to resolve trader and currency names with.
+     * @returns Number of created clones.
+     */
+    public cloneAll(tables: QueryTables, clones: Record<string, Clone>, enums: QueryEnums = {}): number
+    {
+        const context = Query.createContext(tables, enums);
+        let cloneCount = 0;
+        for (const cloneName in clones)
+        {
+            const clone = clones[cloneName];
+            const issues = ConfigValidator.validateClone(clone, `clones.${cloneName}`);
+            ConfigValidator.report(this.logger, issues);
+            if (ConfigValidator.hasErrors(issues)) continue;
+            const dbItems = tables.templates.items;
+            const sourceId = dbItems[clone.source] != null ? clone.source : Object.keys(dbItems).find(itemId => dbItems[itemId]._name === clone.source);
+            const traderId = clone.trader == null ? undefined : Query.resolveTraderId(`${clone.trader.trader}`, context);
+            if (sourceId === undefined)
+            {
+                this.logger.explicitError(`[ERROR] Clone "${cloneName}": source item "${clone.source}" couldn't be found in the database. Use it's "_id" or "_name".`);
+            }
+            else if (dbItems[clone.id] != null)
+            {
+                this.logger.explicitError(`[ERROR] Clone "${cloneName}": item with id "${clone.id}" (${dbItems[clone.id]._name}) already exists.`);
+            }
+            else if (clone.trader != null && traderId === undefined)
+            {
+                this.logger.explicitError(`[ERROR] Clone "${cloneName}": trader "${clone.trader.trader}" couldn't be found.`);
+            }
+            else
+            {
+                this.logger.log(`Cloning "${dbItems[sourceId]._name}" into "${cloneName}" - id: ${clone.id}`, LogTextColor.BLUE);
+                this.cloneItem(tables, sourceId, cloneName, clone);
+                this.addToLocales(tables, sourceId, clone);
+                this.addToHandbook(tables, sourceId, clone);
+                const price = clone.price ?? tables.templates.prices?.[sourceId];
+                if (price !== undefined && tables.templates.prices != null)
+                    tables.templates.prices[clone.id] = price;
+                if (clone.trader != null)
+                    this.addToTraderAssort(tables, traderId, clone, enums.money ?? {});
+                const filterCount = this.addToFilters(tables, sourceId, clone.id);
+                this.logger.explicitInfo(`Clone "${cloneName}" created and added to ${filterCount} slot and container filters`);
+                ++cloneCount;
+            }
+        }
+        return cloneCount;
+    }
+
+    /**
+     * Copies the source item template and applies the clone's changes to it.
+     */
+    private cloneItem(tables: QueryTables, sourceId: string, cloneName: string, clone: Clone): void
+    {
+        const item = JSON.parse(JSON.stringify(tables.templates.items[sourceId]));
+        item._id = clone.id;
+        item._name = cloneName;
+        this.reassignSubEntries(item, clone.id);
+        tables.templates.items[clone.id] = item;
+
+        this.journal.setSource(clone.id, cloneName, `clone:${cloneName}`);
+        const multiplyResult = this.applicator.tryToApplyAllChanges(item._props, clone.multiply, ApplicatorChangeType.MULTIPLY, ApplicatorLogFormat.LIST_ENTRY);
+        const setValueResult = this.applicator.tryToApplyAllChanges(item._props, clone.set, ApplicatorChangeType.SET_VALUE, ApplicatorLogFormat.LIST_ENTRY);
+        this.logger.log(`"${cloneName}" has ${multiplyResult + setValueResult} changes from "${tables.templates.items[sourceId]._name}"`, LogTextColor.CYAN);
+    }
+
+    /**
+     * Gives slots, chambers, cartridges, grids and stack slots of the clone IDs of their own and points them to the clone,
+     * otherwise two templates would share sub-entry IDs.
+     */
+    private reassignSubEntries(item: any, cloneId: string): void
+    {
+        for (const property of ItemCloner.filterProperties)
+        {
+            for (const subEntry of item._props?.[property] ?? [])
+            {
+                if (subEntry?._id == null) continue;
+                // Derived from the clone and the source entry, so IDs stay the same between server starts like assort IDs.
+                subEntry._id = crypto.createHash("md5").update(`${cloneId}:${subEntry._id}`).digest("hex").slice(0, 24);
+                subEntry._parent = cloneId;
+            }
+        }
+    }
+
+    /**
+     * Adds locale strings of the clone to every language.
+     */
+    private addToLocales(tables: QueryTables, sourceId: string, clone: Clone): void
+    {
+        const globalLocales = tables.locales?.global ?? {};
+        for (const language in globalLocales)
+        {
+            const cloneLocale = clone.locales?.[language] ?? clone.locales?.["en"] ?? {};
+            for (const property of ItemCloner.localeProperties)
+            {
+                const value = cloneLocale[property] ?? globalLocales[language][`${sourceId} ${property}`];
+                if (value !== undefined)
+                    globalLocales[language][`${clone.id} ${property}`] = value;
+            }
+        }
+    }
+
+    /**
+     * Adds a handbook entry for the clone, based on the source item's entry.
+     */
+    private addToHandbook(tables: QueryTables, sourceId: string, clone: Clone): void
+    {
+        const handbookItems = tables.templates.handbook?.Items;
+        if (handbookItems == null) return;
+        const sourceEntry = handbookItems.find(handbookItem => handbookItem.Id === sourceId);
+        const parentId = clone.handbook?.ParentId ?? sourceEntry?.ParentId;
+        const price = clone.handbook?.Price ?? sourceEntry?.Price;
+        if (parentId === undefined || price === undefined)
+        {
+            this.logger.explicitWarning(`[WARNING] Clone "${clone.id}" has no handbook entry. Define "handbook" with "ParentId" and "Price" if the source item has none.`);
+            return;
+        }
+        handbookItems.push({ Id: clone.id, ParentId: parentId, Price: price });
+    }
+
+    /**
+     * Adds a trader offer for the clone.
+     */
+    private addToTraderAssort(tables: QueryTables, traderId: string, clone: Clone, money: Record<string, string>): void
+    {
+        const assort = tables.traders[traderId].assort;
+        if (assort == null)
+        {
+            this.logger.explicitWarning(`[WARNING] Trader "${clone.trader.trader}" has no assort, clone "${clone.id}" isn't listed.`);
+            return;
+        }
+        const offer = clone.trader;
+        // Assort IDs only have to be unique, derive it from the clone so it stays the same between server starts.
+        const assortId = crypto.createHash("md5").update(`${traderId}:${clone.id}`).digest("hex").slice(0, 24);
+        const currencyId = money[offer.currency ?? "ROUBLES"] ?? offer.currency ?? "5449016a4bdc2d6f028b456f";
+        assort.items.push({
+            _id: assortId,
+            _tpl: clone.id,
+            parentId: "hideout",
+            slotId: "hideout",
+            upd: {
+                UnlimitedCount: offer.unlimitedCount ?? false,
+                StackObjectsCount: offer.stockCount ?? 100,
+                ...(offer.buyRestrictionMax !== undefined ? { BuyRestrictionMax: offer.buyRestrictionMax, BuyRestrictionCurrent: 0 } : {})
+            }
+        });
+        assort.barter_scheme[assortId] = [[{ _tpl: currencyId, count: offer.price }]];
+        assort.loyal_level_items[assortId] = offer.loyaltyLevel ?? 1;
+    }
+
+    /**
+     * Adds the clone to every slot and container filter which accepts the source item.
+     * @returns Number of changed filters.
+     */
+    private addToFilters(tables: QueryTables, sourceId: string, cloneId: string): number
+    {
+        let filterCount = 0;
+        for (const item of Object.values(tables.templates.items))
+        {
+            for (const property of ItemCloner.filterProperties)
+            {
+                for (const slot of item._props?.[property] ?? [])
+                {
+                    for (const filter of slot._props?.filters ?? [])
+                    {
+                        if (Array.isArray(filter.Filter) && filter.Filter.includes(sourceId) && !filter.Filter.includes(cloneId))
+                        {
+                            filter.Filter.push(cloneId);
+                            ++filterCount;
+                        }
+                    }
+                }
+            }
+        }
+        return filterCount;
+    }
+}
+
+export { ItemCloner, Clone, CloneLocale, CloneTraderOffer };
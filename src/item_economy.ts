@@ -0,0 +1,68 @@
+import { HandbookItem } from "@spt-aki/models/eft/common/tables/IHandbookBase";
+import { QueryContext } from "./query";
+
+/**
+ * Editable view of an item's flea market base price ("templates.prices").
+ */
+class RagfairPriceView
+{
+    private prices: Record<string, number>;
+    private itemId: string;
+
+    constructor(prices: Record<string, number>, itemId: string)
+    {
+        this.prices = prices;
+        this.itemId = itemId;
+    }
+
+    public get price(): number
+    {
+        return this.prices[this.itemId];
+    }
+
+    public set price(value: number)
+    {
+        this.prices[this.itemId] = value;
+    }
+}
+
+type ItemEconomyView = {
+    handbook: HandbookItem;
+    ragfair: RagfairPriceView;
+}
+
+/**
+ * Utility class which provides access to economy values of items, addressed with the same keys as in queries:
+ * "handbook.Price" and "ragfair.price".
+ */
+class ItemEconomy
+{
+    private static propertyPrefixes = ["handbook.", "ragfair."];
+
+    /**
+     * Checks if a change property targets item's economy values instead of it's "_props".
+     * @param property Property name, e.g. "handbook.Price".
+     * @returns Boolean check result.
+     */
+    public static isEconomyProperty(property: string): boolean
+    {
+        return this.propertyPrefixes.some(prefix => property.startsWith(prefix));
+    }
+
+    /**
+     * Gets an editable view of item's economy values which can be passed to the Applicator as a regular target object.
+     * @param context Query context with handbook entries and prices.
+     * @param itemId Item ID.
+     * @returns Economy view.
+     */
+    public static getView(context: QueryContext, itemId: string): ItemEconomyView
+    {
+        return {
+            handbook: context.handbookItems.get(itemId),
+            ragfair: new RagfairPriceView(context.prices, itemId)
+        };
+    }
+
+}
+
+export { ItemEconomy, ItemEconomyView, RagfairPriceView };
@@ -0,0 +1,118 @@
+import { VerboseLogger } from "./verbose_logger";
+import { ChangeJournal, ChangeJournalEntry } from "./change_journal";
+import { Expression, Query, QueryContext } from "./query";
+import { Overwrite, Selector } from "./selector_pipeline";
+import { ConfigValidator } from "./config_validator";
+
+/**
+ * State of the mod the API works with. Provided by the mod itself.
+ */
+type ItemTweakerApiHost = {
+    // Query context of the last run, undefined until the database is loaded
+    getQueryContext: () => QueryContext;
+    // Change journal of the last run, undefined until the database is loaded
+    getJournal: () => ChangeJournal;
+    // Called for every registration, so tweaks which were already applied can be run again
+    onRegister: (modName: string) => void;
+}
+
+/**
+ * Public API for other mods, registered in the DependencyContainer as "ItemTweakerApi" before the database is loaded:
+ *
+ *     const itemTweaker = container.resolve<ItemTweakerApi>("ItemTweakerApi");
+ *     itemTweaker.registerSelectors("MyWeaponsMod", { my_rifle_recoil: { query: { ... }, multiply: { ... } } });
+ *
+ * Registered selectors and overwrites are run along with the ones from the config files: they are validated, ordered by "priority" and checked
+ * for conflicts the same way. Their origin is shown as "api:<mod name>" in warnings and conflicts. Registrations made after Item Tweaker has
+ * applied it's tweaks undo the tweaks and run them again before the call returns.
+ */
+class ItemTweakerApi
+{
+    private logger: VerboseLogger;
+    private host: ItemTweakerApiHost;
+    // Mod name -> selectors or overwrites of the mod
+    private selectors = new Map<string, Record<string, Selector>>();
+    private overwrites = new Map<string, Record<string, Overwrite>>();
+
+    constructor(logger: VerboseLogger, host: ItemTweakerApiHost)
+    {
+        this.logger = logger;
+        this.host = host;
+    }
+
+    /**
+     * Registers selectors of a mod. Registering a selector key again replaces the previous selector of the mod.
+     * @param modName Name of the registering mod, shown in messages.
+     * @param selectors Selectors keyed by name, the same as in "dynamic_selectors.json".
+     */
+    public registerSelectors(modName: string, selectors: Record<string, Selector>): void
+    {
+        this.register(modName, "selectors", selectors, this.selectors);
+    }
+
+    /**
+     * Registers manual overwrites of a mod. Registering an overwrite key again replaces the previous overwrite of the mod.
+     * @param modName Name of the registering mod, shown in messages.
+     * @param overwrites Overwrites keyed by item "_id", "_name" or in-game name, the same as in "manual_overwrite.json".
+     */
+    public registerOverwrites(modName: string, overwrites: Record<string, Overwrite>): void
+    {
+        this.register(modName, "overwrites", overwrites, this.overwrites);
+    }
+
+    /**
+     * Gets selectors registered by every mod.
+     * @returns Map of mod name -> selectors.
+     */
+    public getRegisteredSelectors(): Map<string, Record<string, Selector>>
+    {
+        return new Map(this.selectors);
+    }
+
+    /**
+     * Gets overwrites registered by every mod.
+     * @returns Map of mod name -> overwrites.
+     */
+    public getRegisteredOverwrites(): Map<string, Record<string, Overwrite>>
+    {
+        return new Map(this.overwrites);
+    }
+
+    /**
+     * Evaluates a query against every item of the database, with the values of the last run. Throws if the query is invalid
+     * or the database isn't loaded yet.
+     * @param query Query expression, the same as a selector "query".
+     * @returns Array of matching item IDs.
+     */
+    public query(query: Expression): string[]
+    {
+        const context = this.host.getQueryContext();
+        if (context === undefined) throw "Item Tweaker: queries can only be run after the database is loaded";
+        const issues = ConfigValidator.validateExpression(query, "query");
+        if (ConfigValidator.hasErrors(issues))
+            throw `Item Tweaker: invalid query. ${issues.filter(issue => issue.severity === "error").map(issue => `${issue.path}: ${issue.message}`).join("; ")}`;
+        const candidateIds = Query.getCandidateIds(query, context);
+        return Object.keys(context.items).filter(itemId => (candidateIds === undefined || candidateIds.has(itemId)) &&
+            context.items[itemId]?._type === "Item" && Query.evaluateQuery(query, context.items[itemId], context));
+    }
+
+    /**
+     * Gets every change of the last run.
+     * @returns Array of change journal entries, empty until the tweaks are applied.
+     */
+    public getJournal(): ChangeJournalEntry[]
+    {
+        return [...(this.host.getJournal()?.getEntries() ?? [])];
+    }
+
+    private register<T>(modName: string, kind: string, entries: Record<string, T>, registered: Map<string, Record<string, T>>): void
+    {
+        if (typeof modName !== "string" || modName === "") throw `Item Tweaker: ${kind} have to be registered with a mod name`;
+        if (entries == null || typeof entries !== "object" || Array.isArray(entries)) throw `Item Tweaker: ${kind} of "${modName}" have to be an object keyed by name`;
+        registered.set(modName, { ...registered.get(modName), ...entries });
+        this.logger.explicitInfo(`"${modName}" registered ${Object.keys(entries).length} ${kind}`);
+        this.host.onRegister(modName);
+    }
+}
+
+export { ItemTweakerApi, ItemTweakerApiHost, ChangeJournalEntry, Expression, Overwrite, Selector };
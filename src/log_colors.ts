@@ -0,0 +1,34 @@
+/**
+ * Text colors of the server logger, the same values as the server's LogTextColor enum.
+ * Defined locally, so modules shared with the CLI don't need the server at runtime: "@spt-aki/*" only resolves to type declarations outside of it.
+ */
+enum LogTextColor
+    {
+    BLACK = "black",
+    RED = "red",
+    GREEN = "green",
+    YELLOW = "yellow",
+    BLUE = "blue",
+    MAGENTA = "magenta",
+    CYAN = "cyan",
+    WHITE = "white",
+    GRAY = ""
+}
+
+/**
+ * Background colors of the server logger, the same values as the server's LogBackgroundColor enum.
+ */
+enum LogBackgroundColor
+    {
+    DEFAULT = "",
+    BLACK = "blackBG",
+    RED = "redBG",
+    GREEN = "greenBG",
+    YELLOW = "yellowBG",
+    BLUE = "blueBG",
+    MAGENTA = "magentaBG",
+    CYAN = "cyanBG",
+    WHITE = "whiteBG"
+}
+
+export { LogTextColor, LogBackgroundColor };
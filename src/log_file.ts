@@ -0,0 +1,89 @@
+import { ILogger } from "@spt-aki/models/spt/utils/ILogger";
+import fs from "fs";
+import path from "path";
+
+import { LogLevel } from "./verbose_logger";
+
+/**
+ * Dedicated log file of Item Tweaker, e.g. "logs/item_tweaker.log". When the file grows over the size limit it's rotated:
+ * "item_tweaker.log" becomes "item_tweaker.log.1", "item_tweaker.log.1" becomes "item_tweaker.log.2" and so on, the oldest file is removed.
+ * Lines are written synchronously, so nothing is lost if the server crashes during startup.
+ */
+class LogFile
+{
+    public readonly level: LogLevel;
+    private logger: ILogger;
+    private filePath: string;
+    private maxSize: number;
+    private rotatedFileCount: number;
+    private fileDescriptor: number;
+    private size = 0;
+    private isBroken = false;
+
+    /**
+     * @param logger Logger to report a log file which can't be written with.
+     * @param filePath Path of the log file, created with it's directory on the first write.
+     * @param level Most detailed level written into the file.
+     * @param maxSize File size in bytes after which the file is rotated.
+     * @param rotatedFileCount Number of rotated files to keep.
+     */
+    constructor(logger: ILogger, filePath: string, level: LogLevel, maxSize: number, rotatedFileCount: number)
+    {
+        this.logger = logger;
+        this.filePath = filePath;
+        this.level = level;
+        this.maxSize = maxSize;
+        this.rotatedFileCount = rotatedFileCount;
+    }
+
+    /**
+     * Writes a message, every line of it is prefixed with the time and the level.
+     * @param level Level of the message.
+     * @param message Message without colors.
+     */
+    public write(level: LogLevel, message: string): void
+    {
+        if (this.isBroken) return;
+        const prefix = `${new Date().toISOString()} ${`[${level}]`.padEnd(9)} `;
+        const text = message.split("\n").map(line => prefix + line).join("\n") + "\n";
+        const byteLength = Buffer.byteLength(text);
+        try
+        {
+            if (this.fileDescriptor === undefined) this.open();
+            if (this.size > 0 && this.size + byteLength > this.maxSize) this.rotate();
+            fs.writeSync(this.fileDescriptor, text);
+            this.size += byteLength;
+        }
+        catch (error)
+        {
+            // A log file which can't be written must not stop the tweaks, the console still gets every message
+            this.isBroken = true;
+            this.logger.error(`[ERROR] Item Tweaker: couldn't write the log file "${this.filePath}", file logging is disabled: ${error}`);
+        }
+    }
+
+    private open(): void
+    {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        this.fileDescriptor = fs.openSync(this.filePath, "a");
+        this.size = fs.fstatSync(this.fileDescriptor).size;
+    }
+
+    private rotate(): void
+    {
+        fs.closeSync(this.fileDescriptor);
+        fs.rmSync(`${this.filePath}.${this.rotatedFileCount}`, { force: true });
+        for (let index = this.rotatedFileCount - 1; index >= 1; --index)
+        {
+            if (fs.existsSync(`${this.filePath}.${index}`))
+                fs.renameSync(`${this.filePath}.${index}`, `${this.filePath}.${index + 1}`);
+        }
+        if (this.rotatedFileCount > 0)
+            fs.renameSync(this.filePath, `${this.filePath}.1`);
+        else
+            fs.rmSync(this.filePath, { force: true });
+        this.open();
+    }
+}
+
+export { LogFile };
@@ -1,374 +1,344 @@
 import { DatabaseServer } from "@spt-aki/servers/DatabaseServer";
 import { IDatabaseTables } from "@spt-aki/models/spt/server/IDatabaseTables";
+import { IPreAkiLoadMod } from "@spt-aki/models/external/IPreAkiLoadMod";
 import { IPostDBLoadMod } from "@spt-aki/models/external/IPostDBLoadMod";
+import { IPostAkiLoadMod } from "@spt-aki/models/external/IPostAkiLoadMod";
+import { ILogger } from "@spt-aki/models/spt/utils/ILogger";
+import { BaseClasses } from "@spt-aki/models/enums/BaseClasses";
+import { Money } from "@spt-aki/models/enums/Money";
+import { Traders } from "@spt-aki/models/enums/Traders";
+import { StaticRouterModService } from "@spt-aki/services/mod/staticRouter/StaticRouterModService";
 import { DependencyContainer } from "tsyringe";
-
-import dynamicSelectors from "../config/dynamic_selectors.json";
-import manualOverwrite from "../config/manual_overwrite.json";
-
-import { VerboseLogger } from "./verbose_logger";
-import { Applicator, ApplicatorChangeType, ApplicatorLogFormat } from "./applicator";
-import { LogTextColor } from "@spt-aki/models/spt/logging/LogTextColor";
-import { LogBackgroundColor } from "@spt-aki/models/spt/logging/LogBackgroundColor";
-import { Expression, Query } from "./query";
-
-
-
-type Selector = {
-    query: Expression;
-    multiply?: object;
-    set?: object;
-    priority?: number;
-}
-
-type SelectorMetaData = {
-    matchingIds: string[];
-    affectedIds: string[];
-    changedProperties: string[];
-    priority?: number;
-    isValid: boolean;
+import fs from "fs";
+import path from "path";
+
+import modConfig from "../config/config.json";
+import clones from "../config/clones.json";
+
+import { LogLevel, VerboseLogger } from "./verbose_logger";
+import { LogFile } from "./log_file";
+import { ChangeJournal, ChangeJournalEntry } from "./change_journal";
+import { Applicator } from "./applicator";
+import { Query, QueryContext, QueryEnums } from "./query";
+import { ConflictPolicy, Overwrite, Selector, SelectorPipeline } from "./selector_pipeline";
+import { ItemCloner } from "./item_cloner";
+import { PropertySnapshot } from "./property_snapshot";
+import { ConfigValidator } from "./config_validator";
+import { RevertFile } from "./revert_file";
+import { ConfigLoader } from "./config_loader";
+import { ItemTweakerApi } from "./item_tweaker_api";
+import { PropertyCatalog } from "./property_catalog";
+import { PreviewResponse, SelectorPreview } from "./selector_preview";
+
+type TweakConfigs = {
+    config: typeof modConfig;
+    dynamicSelectors: Record<string, Selector>;
+    manualOverwrite: Record<string, Overwrite>;
+    // Selector and overwrite keys -> files they are loaded from
+    selectorFiles: Map<string, string>;
+    overwriteFiles: Map<string, string>;
 }
 
-type Overwrite = {
-    multiply?: object;
-    set?: object;
-}
-
-type OverwriteMetaData = {
-    name: string;
-    changedProperties: string[];
-}
-
-class ItemTweaker implements IPostDBLoadMod 
+class ItemTweaker implements IPreAkiLoadMod, IPostDBLoadMod, IPostAkiLoadMod
 {
+    private static configDirectory = path.join(__dirname, "..", "config");
+    // Every "*.json" file in these directories is loaded along with "dynamic_selectors.json" and "manual_overwrite.json"
+    private static selectorsDirectory = "selectors";
+    private static overwritesDirectory = "overwrites";
+    // Changes in the config directory usually come in bursts, e.g. an editor writing a temporary file first
+    private static reloadDelay = 500;
+
     private logger: VerboseLogger;
     private applicator: Applicator;
+    private journal: ChangeJournal;
+    // Clone changes made on startup, every run's journal starts with them
+    private cloneEntries: ChangeJournalEntry[] = [];
+    private queryContext: QueryContext;
+    private snapshot = new PropertySnapshot();
+    private reloadTimeout: NodeJS.Timeout;
+    private api: ItemTweakerApi;
+    // Undoes the tweaks and runs them again right away, set once they are applied
+    private rerun: (reason: string) => void;
+    // Set in "postAkiLoad", once the server has read the database for it's caches
+    private isServerLoaded = false;
+
+    /**
+     * Registers the API, so other mods can resolve it in their "postDBLoad", and the preview routes.
+     */
+    public preAkiLoad(container: DependencyContainer): void
+    {
+        const winstonLogger = container.resolve<ILogger>("WinstonLogger");
+        this.logger = new VerboseLogger(winstonLogger, VerboseLogger.getConfiguredLevel(), this.createLogFile(winstonLogger));
+        this.api = new ItemTweakerApi(this.logger, {
+            getQueryContext: () => this.queryContext,
+            getJournal: () => this.journal,
+            onRegister: modName => this.onRegister(modName)
+        });
+        container.register<ItemTweakerApi>("ItemTweakerApi", { useValue: this.api });
+
+        // Preview requests would flood the log with change lines in verbose mode
+        const preview = new SelectorPreview(new VerboseLogger(winstonLogger, false), () => this.queryContext);
+        container.resolve<StaticRouterModService>("StaticRouterModService").registerStaticRouter("ItemTweakerPreview", [
+            { url: "/itemtweaker/query", action: (url, info) => this.handlePreviewRequest(url, () => preview.query(info)) },
+            { url: "/itemtweaker/preview", action: (url, info) => this.handlePreviewRequest(url, () => preview.preview(info)) }
+        ], "itemtweaker");
+    }
 
     public postDBLoad(container: DependencyContainer): void 
     {
-        this.logger = new VerboseLogger(container);
-        this.applicator = new Applicator(this.logger);
+        const dryRun = modConfig.dryRun ?? false;
+        this.journal = new ChangeJournal();
+        this.applicator = new Applicator(this.logger, this.journal);
 
         this.logger.explicitInfo("Item Tweaker: Starting...");
 
         this.logger.explicitInfo("Initialization...");
         const databaseServer = container.resolve<DatabaseServer>("DatabaseServer");
         const tables = databaseServer.getTables();
-        const dbItems: IDatabaseTables = tables.templates.items;
-
-        // Collect selectors meta to check for intersections and validate selectors
-        const selectorsMetaData = new Map<string, SelectorMetaData>();
-        for (const selectorKey in dynamicSelectors)
+        // In dry run every selector and overwrite is applied to a copy of the changed tables, so the results (including composed changes) are accurate
+        // but the database stays untouched.
+        const workingTables: IDatabaseTables = dryRun ? {
+            ...tables,
+            templates: {
+                ...tables.templates,
+                items: JSON.parse(JSON.stringify(tables.templates.items)),
+                handbook: JSON.parse(JSON.stringify(tables.templates.handbook)),
+                prices: JSON.parse(JSON.stringify(tables.templates.prices))
+            },
+            traders: JSON.parse(JSON.stringify(tables.traders)),
+            locales: { ...tables.locales, global: JSON.parse(JSON.stringify(tables.locales.global)) }
+        } : tables;
+        if (dryRun)
+            this.logger.explicitWarning("[WARNING] Dry run is enabled. Changes are only recorded in the change journal, items, prices, locales and trader assorts are not modified.");
+        const enums = { baseClasses: BaseClasses, traders: Traders, money: Money };
+
+        // Clones are created first, so selectors and overwrites can change them as well
+        if (Object.keys(clones).length > 0)
         {
-            selectorsMetaData.set(selectorKey, this.getSelectorMetaData(dbItems, dynamicSelectors[selectorKey], selectorKey));
+            this.logger.explicitInfo("Creating Clones...");
+            const cloneCount = new ItemCloner(this.logger, this.applicator, this.journal).cloneAll(workingTables, clones, enums);
+            this.logger.explicitInfo(`Created ${cloneCount} of ${Object.keys(clones).length} clones`);
+            this.cloneEntries = [...this.journal.getEntries()];
         }
-        // Collect overwrite meta
-        // And check if the names can be found in database
-        const overwritesMetaData = new Map<string, OverwriteMetaData>();
-        for (const itemName in manualOverwrite)
-        {
-            const overwrite: Overwrite = manualOverwrite[itemName];
-            const itemId = Object.keys(dbItems).find(element => dbItems[element]._name === itemName);
-            if (itemId != null)
-            {
-                overwritesMetaData.set(itemId, {
-                    name: itemName,
-                    changedProperties: Object.keys(overwrite.multiply ?? {}).concat(Object.keys(overwrite.set ?? {}))
-                });
-            }
-            else 
-            {
-                this.logger.explicitWarning(`[WARNING] "${itemName}" couldn't be found in the database. Check if the name is correct, remember to refer to "_name", not "Name".`);
-            }
-        }
-
-        // Check if selectors modify the same properties for the same items
-        // and inform the user of potentially unexpected changes.
-        // TODO: Maybe implement Record<string(itemId), string[](affectedProperties)> utility type to check each item individually, though it's not that necessary at all
-        const checkedSelectors: string[] = [];
-        for (const selectorKey of selectorsMetaData.keys())
-        {
-            const selectorChanges = selectorsMetaData.get(selectorKey);
-            for (const key of selectorsMetaData.keys())
-            {
-                if (selectorKey != key && !checkedSelectors.includes(key))
-                {
-                    const otherSelectorChanges = selectorsMetaData.get(key);
-                    const idIntersection: string[] = selectorChanges.matchingIds.filter(element => otherSelectorChanges.matchingIds.includes(element));
-                    const propsIntersections: string[] = selectorChanges.changedProperties.filter(element => otherSelectorChanges.changedProperties.includes(element));
-                    if (idIntersection.length > 0 && propsIntersections.length > 0)
-                    {
-                        this.logger.explicitLog(`[WARNING] Potentially unexpected changes. Selector "${selectorKey}" intersects with "${key}" in ${idIntersection.length} items.`, LogTextColor.RED, LogBackgroundColor.YELLOW);
-                        
-                        for (const itemId of overwritesMetaData.keys())
-                        {
-                            const overwriteMeta = overwritesMetaData.get(itemId);
-                            // Check if item is resolved
-                            if (idIntersection.includes(itemId)) 
-                            {
-                                const unresolvedProps = propsIntersections.filter(element => !overwriteMeta.changedProperties.includes(element));
-                                if (unresolvedProps.length > 0)
-                                {
-                                    this.logger.explicitLog(`[WARNING] Item ${overwriteMeta.name} (${itemId}) is found in manual overwrite, but following property conflicts are not resolved: ${unresolvedProps.toString().replace(/,/g, ", ")}`, LogTextColor.BLACK, LogBackgroundColor.YELLOW);
-                                }
-                                idIntersection.splice(idIntersection.indexOf(itemId), 1);
-                            }                            
-                        }
-
-                        const itemNames = idIntersection.map(element => dbItems[element]._name);
-                        this.logger.explicitLog(`[WARNING] Conflict Items: ${itemNames.toString().replace(/,/g, ", ")}`, LogTextColor.YELLOW);
-                        this.logger.explicitLog(`[WARNING] Conflict Properties: ${propsIntersections.toString().replace(/,/g, ", ")}`, LogTextColor.YELLOW);
-                    }
-                }
-            }
-            checkedSelectors.push(selectorKey);
-        }
-
-        // Apply Selector Tweaks
-        // Use selectorMetaData to loop through, as it skips invalid selectors (no matches or errors in JSON structure)
-        // If there are no valid selectors - do nothing
-        if (selectorsMetaData.size > 0)
-        {
-            this.logger.explicitInfo("Applying Selector Tweaks...");
-
-            for (const selectorKey of selectorsMetaData.keys())
-            {
-                const selectorMeta = selectorsMetaData.get(selectorKey);
-                if (selectorMeta.isValid)
-                {
-                    const selector: Selector = dynamicSelectors[selectorKey];
-                    const ignoreOvewriteIds = [...overwritesMetaData.keys()];
 
-                    this.logger.log(`Applying "${selectorKey}"...`, LogTextColor.BLUE);
-                    // If selector affects no items go through matching items to show errors. No changes will be applied anyway.
-                    const itemIds = selectorMeta.affectedIds.length < 1 ? selectorMeta.matchingIds : selectorMeta.affectedIds;
-                    const tweakResult = this.applySelector(dbItems, selector, itemIds, overwritesMetaData);
+        // Scanned before the tweaks, so the catalog shows the values of the game and other mods
+        if (modConfig.generateCatalog ?? false)
+            this.writeCatalog(workingTables);
 
-                    this.logger.explicitInfo(`"${selectorKey}" made ${tweakResult.changeCount} changes to ${tweakResult.changedItemCount} items`);
-                }
-            }
-        }
-        
-        // Apply Manual Overwrite Tweaks
-        // Use overwriteMetaData to loop through, as it skips items which were not found (potentially due to a wrong name defined in the config)
-        // If there are no valid overwrite items - do nothing
-        if (overwritesMetaData.size > 0)
+        const configs = this.readTweakConfigs();
+        if (configs !== undefined)
+            this.runTweaks(workingTables, enums, dryRun, configs);
+        else
+            this.queryContext = Query.createContext(workingTables, enums);
+        // Mods loaded after Item Tweaker register their selectors once the tweaks are already applied
+        this.rerun = reason =>
         {
-            this.logger.explicitInfo("Applying Manual Overwrite Tweaks...");
+            clearTimeout(this.reloadTimeout);
+            this.reload(workingTables, enums, dryRun, reason);
+        };
 
-            for (const itemId of overwritesMetaData.keys())
-            {
-                const itemName = overwritesMetaData.get(itemId).name;
-                const overwriteSelector: Selector = {
-                    query: {
-                        key: "_id",
-                        operation: "equals",
-                        values: [itemId]
-                    },
-                    multiply: manualOverwrite[itemName].multiply,
-                    set: manualOverwrite[itemName].set
-                }
-                this.logger.log(`Applying "${itemName}" overwrite...`, LogTextColor.BLUE);
-                const overwriteResult = this.applySelector(dbItems, overwriteSelector, [itemId]);
-                this.logger.explicitInfo(`Manual Overwrite made ${overwriteResult.changeCount} changes to "${itemName}"`);
-            }
-        }
+        if (modConfig.hotReload ?? false)
+            this.watchConfig();
 
         this.logger.explicitInfo("Item Tweaker: Completed");
     }
 
     /**
-     * Applies a selector to database items.
-     * @param dbItems Database tables of the server which contain items.
-     * @param selector A selector that will be applied.
-     * @param itemIds An optional array of item IDs to iterate over. Intended as optimization to be used with SelectorMetaData.matchingIds/affectedIds or when changing one item only.
-     * @param overwriteMetaMap An optional array of item IDs to ignore. Initially designed to preserve "manual_overwrite.JSON" priority and resolve conflicts if there are any.
-     * @param validatorFunc Optional, if the default 'isValidItem' validator is not enough.
-     * @returns An object with the operation result: change count, changed item count, array of changed item IDs
+     * Marks the end of the server load. Trader and flea market caches are built by now, from the tweaked database.
      */
-    // In applicatorFunc specification leave logFormat as required parameter to incentivize the use of ApplicatorLogFormat.LIST_ENTRY.
-    private applySelector(dbItems: IDatabaseTables, selector: Selector, itemIds: string[], overwriteMetaMap: Map<string, OverwriteMetaData> = new Map<string, OverwriteMetaData>(), validatorFunc: (item: any) => boolean = this.isValidItem): {changeCount: number, changedItemCount: number, changedItemIds: string[]}
+    public postAkiLoad(): void
     {
-        let changeCount = 0;
-        let changedItemCount = 0;
-        const changedItemIds: string[] = [];
-
-        for (const id of itemIds ?? Object.keys(dbItems)) 
-        {
-            const item = dbItems[id];
-            const properties = item._props;
-            const name = item._name;
-            
-            if (validatorFunc(item) && Query.evaluateQuery(selector.query, item) && (selector.multiply != null || selector.set != null))
-            {
-                this.logger.log(`Item: ${name} - id: ${id}`, LogTextColor.CYAN);
-
-                // If item is present in overwrite filter out properties to let manual overwrite take priority
-                // Not the most precise check, but we don't really care if "changedProperties" were multiplied or set.
-                const isInOverwrite = overwriteMetaMap.has(id);
-                const multiply = isInOverwrite ? Applicator.filterObjectProperties(selector.multiply ?? {}, key => !overwriteMetaMap.get(id).changedProperties.includes(key)) : selector.multiply;
-                const set = isInOverwrite ? Applicator.filterObjectProperties(selector.set ?? {}, key => !overwriteMetaMap.get(id).changedProperties.includes(key)) : selector.set;
-                // const add - future feature for arrays
-                // const remove - future feature for arrays
-                const multiplyResult = this.applicator.tryToApplyAllChanges(properties, multiply, ApplicatorChangeType.MULTIPLY, ApplicatorLogFormat.LIST_ENTRY);
-                const setValueResult = this.applicator.tryToApplyAllChanges(properties, set, ApplicatorChangeType.SET_VALUE, ApplicatorLogFormat.LIST_ENTRY);
-                const totalResult = multiplyResult+setValueResult;
-                if (totalResult > 0)
-                {
-                    changeCount+= totalResult;
-                    ++changedItemCount;
-                    changedItemIds.push(id);
-                }
-            }
-        }
-        return {changeCount: changeCount, changedItemCount: changedItemCount, changedItemIds: changedItemIds};
+        this.isServerLoaded = true;
     }
 
     /**
-     * Get an array of items which the selector affects. That means items which match filter properties and contain a valid property that can be changed by the selector.
-     * @param dbItems Database tables of the server which contain items.
-     * @param selector A selector that will be applied.
-     * @param validatorFunc Optional, if the default 'isValidItem' validator is not enough.
-     * @returns Array of item IDs.
+     * Runs the tweaks again with the selectors and overwrites a mod has registered through the API. The run is synchronous, so a mod
+     * registering in it's "postDBLoad" sees the changes right after the call, and so do the mods and the server loaded after it.
+     * @param modName Name of the registering mod.
      */
-    private getAffectedItemIds(dbItems: IDatabaseTables, selector: Selector, validatorFunc: (item: any) => boolean = this.isValidItem): string[]
+    private onRegister(modName: string): void
     {
-        return Object.keys(dbItems).filter(itemId => 
-        {
-            const item = dbItems[itemId];
-            const properties = item._props;
-            if (validatorFunc(item) && Query.evaluateQuery(selector.query, item))
-            {
-                return this.applicator.canApplyAnyChanges(properties, selector.multiply, ApplicatorChangeType.MULTIPLY) ||
-                    this.applicator.canApplyAnyChanges(properties, selector.set, ApplicatorChangeType.SET_VALUE);
-            }
-        });
+        // Registrations made before the database is loaded are picked up by the first run
+        if (this.rerun === undefined) return;
+        if (this.isServerLoaded)
+            this.logger.explicitWarning(`[WARNING] "${modName}" registered selectors or overwrites after the server has loaded. Trader and flea market caches built on startup don't see the changes.`);
+        this.rerun(`"${modName}" registered selectors or overwrites`);
     }
 
     /**
-     * Get an array of items which match the selector query.
-     * @param dbItems Database tables of the server which contain items.
-     * @param selector A selector that will be applied.
-     * @param validatorFunc Optional, if the default 'isValidItem' validator is not enough.
-     * @returns Array of item IDs.
+     * Runs the selector and overwrite pipeline. Every changed property is saved into the snapshot first, so the run can be undone.
+     * @param tables Database tables to apply the changes to.
+     * @param enums Server enums for the query context.
+     * @param dryRun Whether the tables are a copy, saved in the change journal.
+     * @param configs Selector and overwrite configs.
      */
-    private getMatchingItemIds(dbItems: IDatabaseTables, selector: Selector, validatorFunc: (item: any) => boolean = this.isValidItem): string[]
+    private runTweaks(tables: IDatabaseTables, enums: QueryEnums, dryRun: boolean, configs: TweakConfigs): void
     {
-        return Object.keys(dbItems).filter(itemId => validatorFunc(dbItems[itemId]) && Query.evaluateQuery(selector.query, dbItems[itemId]));
+        // Clones are only created on startup, their changes are carried over into the journal of every run
+        this.journal = new ChangeJournal(this.cloneEntries);
+        this.applicator = new Applicator(this.logger, this.journal, this.snapshot);
+        // Built for every run, so queries see the restored values
+        this.queryContext = Query.createContext(tables, enums);
+
+        const dbItems: IDatabaseTables = tables.templates.items;
+        const pipeline = new SelectorPipeline(this.logger, this.applicator, this.journal, this.queryContext);
+        pipeline.setConfigFiles(configs.selectorFiles, configs.overwriteFiles);
+        const activeSelectors = pipeline.filterSelectors(configs.dynamicSelectors, configs.config);
+        pipeline.reportSkippedSelectors(activeSelectors.skipped);
+        pipeline.run(dbItems, activeSelectors.selectors, configs.manualOverwrite, configs.config.conflictPolicy as ConflictPolicy, configs.config.overwriteLanguage ?? "en");
+
+        try
+        {
+            const journalPaths = this.journal.write(path.join(__dirname, "..", "journal"), dryRun);
+            this.logger.explicitInfo(`Change journal with ${this.journal.getEntries().length} changes written to ${journalPaths.join(", ")}`);
+        }
+        catch (error)
+        {
+            this.logger.explicitError(`[ERROR] Couldn't write the change journal: ${error}`);
+        }
+        try
+        {
+            // Clones have no original values to return to, only changes of the run itself are reverted
+            const revertFile = new RevertFile(this.journal.getEntries().slice(this.cloneEntries.length));
+            const revertPaths = revertFile.write(path.join(__dirname, "..", "revert"));
+            this.logger.explicitInfo(`Revert overwrites for ${revertFile.getSources().length} selectors and overwrites written to ${revertPaths[0]}`);
+            if (revertFile.skipped > 0)
+                this.logger.explicitWarning(`[WARNING] ${revertFile.skipped} trader assort changes can't be reverted with manual overwrites and are left out of the revert file.`);
+        }
+        catch (error)
+        {
+            this.logger.explicitError(`[ERROR] Couldn't write the revert file: ${error}`);
+        }
     }
 
     /**
-     * Validates a selector and collects meta data for it.
-     * @param dbItems Database tables of the server which contain items.
-     * @param selector A selector to validate and collect meta data for.
-     * @param validatorFunc Optional, if the default 'isValidItem' validator is not enough.
-     * @returns A meta data object.
+     * Runs a preview request and serializes it's response. Errors are returned in the response, so a bad request doesn't break the router.
+     * @param url Route of the request.
+     * @param evaluation Function which evaluates the request body.
+     * @returns JSON response.
      */
-    private getSelectorMetaData(dbItems: IDatabaseTables, selector: Selector, logName?: string): SelectorMetaData
+    private handlePreviewRequest(url: string, evaluation: () => PreviewResponse): string
     {
-        const multiply = selector.multiply;
-        const set = selector.set;
-
-        // Make sure that user's selector has a proper JSON structure and types
-        // if (filterProperty != null && filterValues != null && typeof filterProperty === "string" && Array.isArray(filterValues))
-        if (Query.isQuery(selector.query))
+        try
         {
-            // Selector having no changes is not critical
-            if (multiply === undefined && set === undefined)
-            {
-                if (logName !== undefined)
-                    this.logger.explicitWarning(`[WARNING] "${logName}" does nothing. Both it's "multiply" and "set" properties are undefined.`);
-            }
-            // Make sure "multiply" and "set" properties are objects. Remember that being "undefined" is allowed.
-            if (multiply === null || (multiply != null && multiply.constructor.name !== "Object") || set === null || (set != null && set.constructor.name !== "Object"))
-            {
-                if (logName !== undefined)
-                    this.logger.explicitError(`[ERROR] "${logName}" properties "multiply"(${JSON.stringify(multiply)}) and "set"(${JSON.stringify(set)}) must be objects!`);
-            }
-            else 
-            {
-                const matchingItemIds = this.getMatchingItemIds(dbItems, selector);
-                const affectedItemIds = this.getAffectedItemIds(dbItems, selector);
-                if (matchingItemIds.length < 1 && (multiply !== undefined || set !== undefined)) // Check for undefined multiply/set propertis to avoid duplicating basically the same message. 
-                {
-                    if (logName !== undefined)
-                        this.logger.explicitWarning(`[WARNING] "${logName}" has ${matchingItemIds.length} no matching items. Check your query parameters.`);
-                }
-                else if (affectedItemIds.length < 1 && (multiply !== undefined || set !== undefined))
-                {
-                    if (logName !== undefined)
-                        this.logger.explicitWarning(`[WARNING] "${logName}" query matches ${matchingItemIds.length} items but none are affected. Check if multiply/set value types are correct. For more info enable "verbose" in config.`);
-                }
-                return {
-                    matchingIds: matchingItemIds,
-                    affectedIds: affectedItemIds,
-                    changedProperties: [...new Set(Object.keys(selector.multiply ?? {}).concat(Object.keys(selector.set ?? {})))],
-                    //Potentially priority number can be used to resolve conflicts
-                    //though I can't see right now how conflicts could prevent you 
-                    //from doing what you want to do in a meaningful way
-                    priority: selector.priority,
-                    isValid: true
-                };
-            }
+            return JSON.stringify(evaluation());
         }
-        else
+        catch (error)
         {
-            if (logName !== undefined)
-                // this.logger.explicitError(`[ERROR] "${logName}" properties "filterProperty"(${JSON.stringify(filterProperty)}) and "filterValues"(${JSON.stringify(filterValues)}) have to be defined and must have a type "string" and "Array" accordingly!`);
-                this.logger.explicitError(`[ERROR] "${logName}" query has wrong structure. Check if every expression in the tree has proper structure!`);
-        }
-        return {
-            matchingIds: [],
-            affectedIds: [],
-            changedProperties: [],
-            isValid: false
+            this.logger.explicitError(`[ERROR] ${url}: ${error}`);
+            return JSON.stringify({ error: `${error}` });
         }
     }
 
-    
-
-    // Item validation functions
+    /**
+     * Creates the rotating "logs/item_tweaker.log" file with the levels and limits of config.json.
+     * @param logger Server logger to report write errors with.
+     * @returns Log file, undefined if "fileLevel" is "off".
+     */
+    private createLogFile(logger: ILogger): LogFile
+    {
+        const fileLevel = (modConfig.logger.fileLevel ?? "verbose") as LogLevel;
+        if (fileLevel === "off") return undefined;
+        return new LogFile(logger, path.join(__dirname, "..", "logs", "item_tweaker.log"), fileLevel, (modConfig.logger.fileMaxSizeKb ?? 1024) * 1024, modConfig.logger.fileCount ?? 3);
+    }
 
     /**
-     * Additional item validator for weapons, to really make sure it's a usable weapon in game.
-     * @param item Item to validate.
-     * @returns Validation result (true|false).
+     * Writes the property catalog of every item into the "catalog" folder.
+     * @param tables Database tables to scan.
      */
-    private isValidWeaponItem(item: any): boolean
+    private writeCatalog(tables: IDatabaseTables): void
     {
-        return item != null && item._type === "Item" && item._props != null && item._props.weapClass != null && item._name != null;
+        try
+        {
+            const catalogPaths = new PropertyCatalog(tables.templates.items).write(path.join(__dirname, "..", "catalog"));
+            this.logger.explicitInfo(`Property catalog written to ${catalogPaths.join(", ")}`);
+        }
+        catch (error)
+        {
+            this.logger.explicitError(`[ERROR] Couldn't write the property catalog: ${error}`);
+        }
     }
 
     /**
-     * Additional item validator for armors, to really make sure it's a usable armor in game.
-     * @param item Item to validate.
-     * @returns Validation result. (true|false)
+     * Watches the config directory and the selectors and overwrites directories. On change restores every property from the snapshot and runs the tweaks again.
+     * "config.json" options which are only read on startup ("dryRun", "hotReload", "logger") and "clones.json" require a server restart.
      */
-    private isValidArmorItem(item: any): boolean
+    private watchConfig(): void
     {
-        return item != null && item._type === "Item" && item._props != null && item._props.ArmorType != null && item._name != null;
+        try
+        {
+            // Recursive watching isn't available on every platform, so directories are watched one by one
+            const directories = [".", ItemTweaker.selectorsDirectory, ItemTweaker.overwritesDirectory]
+                .map(directory => path.join(ItemTweaker.configDirectory, directory))
+                .filter(directory => fs.existsSync(directory));
+            for (const directory of directories)
+            {
+                fs.watch(directory, (eventType, fileName) =>
+                {
+                    if (fileName == null || !fileName.endsWith(".json") || (directory === directories[0] && fileName === "clones.json")) return;
+                    const changedFile = path.relative(ItemTweaker.configDirectory, path.join(directory, fileName)).split(path.sep).join("/");
+                    clearTimeout(this.reloadTimeout);
+                    this.reloadTimeout = setTimeout(() => this.rerun(`"${changedFile}" changed`), ItemTweaker.reloadDelay);
+                });
+            }
+            this.logger.explicitInfo(`Hot reload is enabled. Watching ${directories.join(", ")} for changes.`);
+        }
+        catch (error)
+        {
+            this.logger.explicitError(`[ERROR] Couldn't watch the config directory, hot reload is disabled: ${error}`);
+        }
     }
 
     /**
-     * Basic item validator.
-     * @param item Item to validate
-     * @returns Validation result. (true|false)
+     * Undoes the current tweaks and runs them again with the changed configs and registered selectors.
      */
-    private isValidItem(item: any): boolean
+    private reload(tables: IDatabaseTables, enums: QueryEnums, dryRun: boolean, reason: string): void
     {
-        return item != null && item._type === "Item" && item._props != null && item._name != null;
+        this.logger.explicitInfo(`Item Tweaker: ${reason}, reloading...`);
+        // Make sure every config is readable before the current tweaks are undone
+        const configs = this.readTweakConfigs();
+        if (configs === undefined)
+        {
+            this.logger.explicitError("[ERROR] Reload skipped, current tweaks are kept.");
+            return;
+        }
+        const restoredCount = this.snapshot.restore();
+        this.logger.explicitInfo(`Restored ${restoredCount} properties from the snapshot`);
+        this.runTweaks(tables, enums, dryRun, configs);
+        this.logger.explicitInfo(`Item Tweaker: Reloaded, ${this.journal.getEntries().length - this.cloneEntries.length} changes applied to ${this.snapshot.size} properties`);
     }
-    
+
     /**
-     * @deprecated
-     * Primitive check to see where the property is private or not. Private properties are designated with an underscore.
-     * @param propertyName String of a property name to be checked.
-     * @returns Check result.
+     * Reads configs which can be changed without a server restart, along with selectors and overwrites registered through the API.
+     * @returns Configs, undefined if any of them can't be read.
      */
-    private isPrivateProperty(propertyName: string)
+    private readTweakConfigs(): TweakConfigs
     {
-        return propertyName.charAt(0) === "_";
+        const configLoader = new ConfigLoader(this.logger, ItemTweaker.configDirectory);
+        try
+        {
+            const config = JSON.parse(fs.readFileSync(path.join(ItemTweaker.configDirectory, "config.json"), "utf8"));
+            ConfigValidator.report(this.logger, ConfigValidator.validateModConfig(config, "config"));
+            const selectors = configLoader.load<Selector>("selectors", "dynamic_selectors.json", ItemTweaker.selectorsDirectory);
+            const overwrites = configLoader.load<Overwrite>("overwrites", "manual_overwrite.json", ItemTweaker.overwritesDirectory);
+            for (const [modName, modSelectors] of this.api.getRegisteredSelectors())
+                configLoader.merge("selectors", selectors, modSelectors, `api:${modName}`);
+            for (const [modName, modOverwrites] of this.api.getRegisteredOverwrites())
+                configLoader.merge("overwrites", overwrites, modOverwrites, `api:${modName}`);
+            return {
+                config: config,
+                dynamicSelectors: selectors.entries,
+                manualOverwrite: overwrites.entries,
+                selectorFiles: selectors.origins,
+                overwriteFiles: overwrites.origins
+            };
+        }
+        catch (error)
+        {
+            this.logger.explicitError(`[ERROR] Couldn't read the config: ${error}`);
+            return undefined;
+        }
     }
 }
 
-module.exports = { mod: new ItemTweaker() };
\ No newline at end of file
+module.exports = { mod: new ItemTweaker() };
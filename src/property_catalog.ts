@@ -0,0 +1,209 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * A "_props" key of the items in a category.
+ */
+type CatalogProperty = {
+    // Value types, e.g. ["number"] or ["string", "null"]. Arrays and null are listed as "array" and "null".
+    types: string[];
+    // Number of items in the category which have the property
+    itemCount: number;
+    min?: number;
+    max?: number;
+    // Distinct string, number and boolean values, only listed if there are few of them
+    values?: (string | number | boolean)[];
+    // "_name" of a few items with the property
+    examples: string[];
+}
+
+/**
+ * Items with the same direct "_parent" node.
+ */
+type CatalogCategory = {
+    id: string;
+    name: string;
+    itemCount: number;
+    properties: Record<string, CatalogProperty>;
+}
+
+type CatalogNode = {
+    id: string;
+    name: string;
+    // Number of items directly in this category
+    itemCount: number;
+    children: CatalogNode[];
+}
+
+/**
+ * Reference of the item database: the category tree and every "_props" key per category with it's types and values.
+ * Built from the live "templates.items", so it always matches the game version, including clones and items of other mods.
+ */
+class PropertyCatalog
+{
+    // Distinct values are listed up to this count, properties with more are only described by types and min/max
+    private static distinctValueLimit = 20;
+    private static exampleLimit = 3;
+    private static listedTypes = ["string", "number", "boolean"];
+
+    private categories = new Map<string, CatalogCategory>();
+    private categoryTree: CatalogNode[] = [];
+    private itemCount = 0;
+
+    /**
+     * Scans every item and category node.
+     * @param dbItems Item templates keyed by ID.
+     */
+    constructor(dbItems: Record<string, any>)
+    {
+        const nodes = new Map<string, CatalogNode>();
+        for (const itemId in dbItems)
+        {
+            if (dbItems[itemId]?._type === "Node")
+                nodes.set(itemId, { id: itemId, name: dbItems[itemId]._name, itemCount: 0, children: [] });
+        }
+        // Distinct values are collected up to the limit, a set over the limit means "too many to list"
+        const distinctValues = new Map<string, Map<string, Set<string | number | boolean>>>();
+        for (const itemId in dbItems)
+        {
+            const item = dbItems[itemId];
+            if (item?._type !== "Item" || item._props == null) continue;
+            ++this.itemCount;
+            const parentId = item._parent ?? "";
+            if (nodes.has(parentId)) ++nodes.get(parentId).itemCount;
+            if (!this.categories.has(parentId))
+            {
+                this.categories.set(parentId, { id: parentId, name: dbItems[parentId]?._name ?? "", itemCount: 0, properties: {} });
+                distinctValues.set(parentId, new Map());
+            }
+            const category = this.categories.get(parentId);
+            ++category.itemCount;
+            for (const [key, value] of Object.entries(item._props))
+            {
+                category.properties[key] ??= { types: [], itemCount: 0, examples: [] };
+                this.addValue(category.properties[key], distinctValues.get(parentId), key, value, item._name);
+            }
+        }
+        for (const [categoryId, categoryValues] of distinctValues)
+        {
+            const properties = this.categories.get(categoryId).properties;
+            for (const [key, values] of categoryValues)
+            {
+                // Objects and arrays can't be listed, so a property holding them is only described by it's types
+                const isListed = properties[key].types.every(type => PropertyCatalog.listedTypes.includes(type));
+                if (isListed && values.size > 0 && values.size <= PropertyCatalog.distinctValueLimit)
+                    properties[key].values = [...values].sort((first, second) => first < second ? -1 : first > second ? 1 : 0);
+            }
+        }
+
+        for (const node of nodes.values())
+        {
+            const parentId = dbItems[node.id]._parent;
+            if (nodes.has(parentId) && parentId !== node.id)
+                nodes.get(parentId).children.push(node);
+            else
+                this.categoryTree.push(node);
+        }
+        const sortNodes = (siblings: CatalogNode[]): void =>
+        {
+            siblings.sort((first, second) => first.name < second.name ? -1 : 1);
+            siblings.forEach(node => sortNodes(node.children));
+        };
+        sortNodes(this.categoryTree);
+    }
+
+    /**
+     * Gets the catalog of a category.
+     * @param categoryId "_parent" ID of the items.
+     * @returns Category catalog, undefined if no item has this parent.
+     */
+    public getCategory(categoryId: string): CatalogCategory
+    {
+        return this.categories.get(categoryId);
+    }
+
+    public getCategoryTree(): CatalogNode[]
+    {
+        return this.categoryTree;
+    }
+
+    public toJson(): string
+    {
+        return JSON.stringify({
+            generated: new Date().toISOString(),
+            itemCount: this.itemCount,
+            categoryTree: this.categoryTree,
+            categories: Object.fromEntries(this.categories)
+        }, null, 4);
+    }
+
+    /**
+     * Formats the catalog in the layout of the reference files: the category tree, then every category with it's properties.
+     */
+    public toText(): string
+    {
+        const lines = [`Generated from ${this.itemCount} items on ${new Date().toISOString()}`, "", "Category tree (\"_parent\" IDs):"];
+        const addNode = (node: CatalogNode, depth: number): void =>
+        {
+            const itemCount = node.itemCount > 0 ? ` - ${node.itemCount} items` : "";
+            lines.push(`${"    ".repeat(depth + 1)}"${node.id}" - ${node.name}${itemCount}`);
+            node.children.forEach(child => addNode(child, depth + 1));
+        };
+        this.categoryTree.forEach(node => addNode(node, 0));
+
+        const categories = [...this.categories.values()].sort((first, second) => first.name < second.name ? -1 : 1);
+        for (const category of categories)
+        {
+            lines.push("", `${category.name} ("_parent": "${category.id}"), ${category.itemCount} items:`);
+            for (const key of Object.keys(category.properties).sort())
+            {
+                const property = category.properties[key];
+                const details = [property.types.join(" | ")];
+                if (property.min !== undefined)
+                    details.push(`${property.min} to ${property.max}`);
+                if (property.values !== undefined)
+                    details.push(`values: ${property.values.map(value => JSON.stringify(value)).join(", ")}`);
+                if (property.itemCount < category.itemCount)
+                    details.push(`${property.itemCount} of ${category.itemCount} items`);
+                details.push(`e.g. ${property.examples.join(", ")}`);
+                lines.push(`    ${`"${key}"`.padEnd(36)}- ${details.join("; ")}`);
+            }
+        }
+        return lines.join("\n") + "\n";
+    }
+
+    /**
+     * Writes "property_catalog.json" and "property_catalog.txt" into the directory.
+     * @param directory Output directory, created if missing.
+     * @returns Array of written file paths.
+     */
+    public write(directory: string): string[]
+    {
+        fs.mkdirSync(directory, { recursive: true });
+        const jsonPath = path.join(directory, "property_catalog.json");
+        const textPath = path.join(directory, "property_catalog.txt");
+        fs.writeFileSync(jsonPath, this.toJson());
+        fs.writeFileSync(textPath, this.toText());
+        return [jsonPath, textPath];
+    }
+
+    private addValue(property: CatalogProperty, categoryValues: Map<string, Set<string | number | boolean>>, key: string, value: any, itemName: string): void
+    {
+        const type = value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+        if (!property.types.includes(type)) property.types.push(type);
+        ++property.itemCount;
+        if (property.examples.length < PropertyCatalog.exampleLimit && !property.examples.includes(itemName))
+            property.examples.push(itemName);
+        if (typeof value === "number")
+        {
+            property.min = Math.min(property.min ?? value, value);
+            property.max = Math.max(property.max ?? value, value);
+        }
+        if (!categoryValues.has(key)) categoryValues.set(key, new Set());
+        const values = categoryValues.get(key);
+        if (PropertyCatalog.listedTypes.includes(type) && values.size <= PropertyCatalog.distinctValueLimit)
+            values.add(value);
+    }
+}
+
+export { PropertyCatalog, CatalogCategory, CatalogProperty, CatalogNode };
@@ -0,0 +1,61 @@
+import { Applicator } from "./applicator";
+
+type SnapshotEntry = {
+    targetObj: object;
+    propertyPath: string;
+    value: any;
+}
+
+/**
+ * Pristine copies of every property changed by the Applicator, so changes can be undone, e.g. before re-running tweaks on hot reload.
+ * Only the first value of a property is saved, later changes of the same property don't overwrite it.
+ */
+class PropertySnapshot
+{
+    private entries: SnapshotEntry[] = [];
+    // Target object -> saved property paths
+    private savedPaths = new Map<object, Set<string>>();
+
+    /**
+     * Saves a deep copy of the property value if it wasn't saved yet. Has to be called before the property is changed.
+     * @param targetObj Target object, e.g. item "_props".
+     * @param propertyPath Property path.
+     */
+    public save(targetObj: object, propertyPath: string): void
+    {
+        if (!this.savedPaths.has(targetObj)) this.savedPaths.set(targetObj, new Set<string>());
+        const paths = this.savedPaths.get(targetObj);
+        if (paths.has(propertyPath)) return;
+        paths.add(propertyPath);
+        const value = Applicator.getNestedProperty(targetObj, propertyPath);
+        this.entries.push({
+            targetObj: targetObj,
+            propertyPath: propertyPath,
+            value: value === undefined ? undefined : JSON.parse(JSON.stringify(value))
+        });
+    }
+
+    /**
+     * Restores every saved property and clears the snapshot.
+     * Properties are restored in reverse order, so a nested property changed before it's parent still gets it's original value.
+     * @returns Number of restored properties.
+     */
+    public restore(): number
+    {
+        for (const entry of [...this.entries].reverse())
+        {
+            Applicator.setNestedProperty(entry.targetObj, entry.propertyPath, entry.value === undefined ? undefined : JSON.parse(JSON.stringify(entry.value)));
+        }
+        const restoredCount = this.entries.length;
+        this.entries = [];
+        this.savedPaths.clear();
+        return restoredCount;
+    }
+
+    public get size(): number
+    {
+        return this.entries.length;
+    }
+}
+
+export { PropertySnapshot };
@@ -1,11 +1,24 @@
+import { HandbookItem } from "@spt-aki/models/eft/common/tables/IHandbookBase";
+import { ITrader } from "@spt-aki/models/eft/common/tables/ITrader";
+import { IDatabaseTables } from "@spt-aki/models/spt/server/IDatabaseTables";
+import { ILocaleBase } from "@spt-aki/models/spt/server/ILocaleBase";
 import { Applicator } from "./applicator";
 
+const queryOperations = [
+    "greater_than", "less_than", "greater_or_equal", "less_or_equal", "between", "equals", "starts_with", "contains", "ends_with", "regex",
+    "exists", "length_equals", "length_greater_than", "descends_from"
+] as const;
+
+type QueryOperation = typeof queryOperations[number];
+
 type BasicExpression = {
     key: string;
-    operation?: "greater_than" | "less_than" | "equals" | "starts_with" | "contains" | "ends_with";
+    operation?: QueryOperation;
     values: any[];
     negation?: boolean;
     strict?: boolean;
+    // RegExp flags of the "regex" operation, e.g. "i"
+    flags?: string;
 }
 
 type LogicalExpression = {
@@ -14,102 +27,526 @@ type LogicalExpression = {
     negation?: boolean;
 }
 
-type Expression = BasicExpression | LogicalExpression;
+/**
+ * Evaluates a nested expression against every element of an array property, e.g. "Slots" or "Grids".
+ * "any" passes if atleast one element passes, "all" passes if every element passes (an empty array passes "all").
+ * Items without the property or with a non-array property don't pass.
+ */
+type QuantifiedExpression = {
+    key: string;
+    quantifier: "any" | "all";
+    expression: Expression;
+    negation?: boolean;
+}
+
+type Expression = BasicExpression | LogicalExpression | QuantifiedExpression;
+
+/**
+ * Items of a key grouped by the key's value. Built once per query context on first use.
+ */
+type QueryIndex = Map<string, { value: any, itemIds: string[] }>;
+
+/**
+ * A single root offer of an item in a trader's assort, flattened for queries.
+ */
+type TraderOffer = {
+    traderId: string;
+    assortId: string;
+    loyaltyLevel: number;
+    stockCount: number;
+    unlimitedCount: boolean;
+    buyRestrictionMax: number;
+    // Count of the first barter scheme entry, the same value the "cost" of trader assort selectors changes
+    cost: number;
+    currency: string;
+    isBarter: boolean;
+}
+
+type DatabaseTemplates = NonNullable<IDatabaseTables["templates"]>;
+
+/**
+ * Database tables queries and clones work with. The server's IDatabaseTables fits as a whole, the CLI only has items and optionally locales.
+ */
+type QueryTables = {
+    templates?: Pick<DatabaseTemplates, "items"> & Partial<Pick<DatabaseTemplates, "handbook" | "prices">>;
+    traders?: IDatabaseTables["traders"];
+    locales?: Pick<ILocaleBase, "global">;
+}
+
+/**
+ * Server enums used to resolve human-readable names. Passed in by the caller, as they are only available at runtime inside the server.
+ */
+type QueryEnums = {
+    baseClasses?: Record<string, string>;
+    traders?: Record<string, string>;
+    money?: Record<string, string>;
+}
+
+/**
+ * Database context queries are evaluated in. Built once with Query.createContext and passed along with every item.
+ */
+type QueryContext = {
+    items: Record<string, any>;
+    handbookItems: Map<string, HandbookItem>;
+    prices: Record<string, number>;
+    traders: Record<string, ITrader>;
+    traderOffers: Map<string, TraderOffer[]>;
+    traderIds: Map<string, string>;
+    // Language -> locale key (e.g. "<id> Name") -> string
+    locales: Record<string, Record<string, string>>;
+    baseClasses: Record<string, string>;
+    // Resolved category IDs, so category names are only looked up once per context.
+    categoryIds: Map<string, string[]>;
+    // Type mismatch message -> number of items it happened for. Collected during evaluation, reported and cleared by the caller.
+    typeMismatches: Map<string, number>;
+    // Query key -> index of the key's values. Has to be cleared if indexed values are changed.
+    indexes: Map<string, QueryIndex>;
+}
 
 /**
  * Utility class which provides functions to process queries.
  */
 class Query 
 {
-    public static evaluateBasicExpression(expression: BasicExpression, targetObj: any): boolean
+    public static readonly operations: readonly string[] = queryOperations;
+    // Keys which are indexed on first use. Large selector sets mostly narrow items down by these.
+    public static readonly indexedKeys: readonly string[] = ["_id", "_parent", "_name", "weapClass", "ammoCaliber"];
+
+    // Patterns of "contains", "starts_with", "ends_with" and "regex" operations, the same pattern is tested against every item
+    private static regExpCache = new Map<string, RegExp>();
+
+    /**
+     * Builds a database context for query evaluation: items, handbook entries, flea prices and flattened trader offers.
+     * @param tables Database tables of the server.
+     * @param enums Optional server enums (BaseClasses, Traders, Money) to resolve names with.
+     * @returns Query context.
+     */
+    public static createContext(tables: QueryTables, enums: QueryEnums = {}): QueryContext
+    {
+        const moneyIds = Object.values(enums.money ?? {});
+        const handbookItems = new Map<string, HandbookItem>();
+        for (const handbookItem of tables.templates?.handbook?.Items ?? [])
+            handbookItems.set(handbookItem.Id, handbookItem);
+
+        const traderOffers = new Map<string, TraderOffer[]>();
+        const traderIds = new Map<string, string>();
+        for (const traderKey in enums.traders ?? {})
+            traderIds.set(this.normalizeName(traderKey), enums.traders[traderKey]);
+        for (const traderId in tables.traders ?? {})
+        {
+            const trader = tables.traders[traderId];
+            traderIds.set(this.normalizeName(traderId), traderId);
+            if (trader.base?.nickname != null)
+                traderIds.set(this.normalizeName(trader.base.nickname), traderId);
+            const assort = trader.assort;
+            if (assort == null) continue;
+            // Only root items are actual offers, the rest are attachments of presets.
+            for (const assortItem of assort.items.filter(element => element.parentId === "hideout"))
+            {
+                const scheme = assort.barter_scheme[assortItem._id]?.[0] ?? [];
+                const offer: TraderOffer = {
+                    traderId: traderId,
+                    assortId: assortItem._id,
+                    loyaltyLevel: assort.loyal_level_items[assortItem._id],
+                    stockCount: assortItem.upd?.StackObjectsCount,
+                    unlimitedCount: assortItem.upd?.UnlimitedCount ?? false,
+                    buyRestrictionMax: assortItem.upd?.BuyRestrictionMax,
+                    cost: scheme[0]?.count,
+                    currency: scheme[0]?._tpl,
+                    isBarter: scheme.some(element => !moneyIds.includes(element._tpl))
+                };
+                if (!traderOffers.has(assortItem._tpl)) traderOffers.set(assortItem._tpl, []);
+                traderOffers.get(assortItem._tpl).push(offer);
+            }
+        }
+
+        return {
+            items: tables.templates?.items ?? {},
+            handbookItems: handbookItems,
+            prices: tables.templates?.prices ?? {},
+            traders: tables.traders ?? {},
+            traderOffers: traderOffers,
+            traderIds: traderIds,
+            locales: tables.locales?.global ?? {},
+            baseClasses: enums.baseClasses ?? {},
+            categoryIds: new Map<string, string[]>(),
+            typeMismatches: new Map<string, number>(),
+            indexes: new Map<string, QueryIndex>()
+        };
+    }
+
+    /**
+     * Resolves a query key into values of an item. Besides plain item properties supports namespaced keys which reach into other tables:
+     * - "handbook.<property>", e.g. "handbook.Price";
+     * - "ragfair.price";
+     * - "trader.<name>.<property>", e.g. "trader.prapor.loyaltyLevel" or "trader.any.cost". Yields a value per matching offer.
+     * @param key Query key.
+     * @param item Item to resolve the key for.
+     * @param context Query context. Required for namespaced keys.
+     * @returns Array of resolved values. Empty if the item has no such value.
+     */
+    public static resolvePropertyValues(key: string, item: any, context?: QueryContext): any[]
+    {
+        const [namespace, ...rest] = key.split(".");
+        let propValues: any[];
+        switch (namespace)
+        {
+            case "handbook":
+            {
+                if (context == null) throw (`Key "${key}" requires a query context.`);
+                const handbookItem = context.handbookItems.get(item._id);
+                propValues = handbookItem == null ? [] : [Applicator.getNestedProperty(handbookItem, rest.join("."))];
+                break;
+            }
+            case "ragfair":
+                if (context == null) throw (`Key "${key}" requires a query context.`);
+                if (rest.join(".") !== "price") throw (`Unknown ragfair key "${key}". Only "ragfair.price" is supported.`);
+                propValues = [context.prices[item._id]];
+                break;
+            case "trader":
+            {
+                if (context == null) throw (`Key "${key}" requires a query context.`);
+                const [traderName, ...offerPath] = rest;
+                const traderId = traderName === "any" ? null : this.resolveTraderId(traderName, context);
+                if (traderId === undefined) throw (`Unknown trader "${traderName}" in key "${key}".`);
+                propValues = (context.traderOffers.get(item._id) ?? [])
+                    .filter(offer => traderId === null || offer.traderId === traderId)
+                    .map(offer => Applicator.getNestedProperty(offer, offerPath.join(".")));
+                break;
+            }
+            default:
+                propValues = [Applicator.getNestedProperty(this.isPrivateProperty(key) ? item : item._props, key)];
+                break;
+        }
+        //Maybe null/undefined should be checked
+        return propValues.filter(propValue => propValue != null);
+    }
+
+    /**
+     * Evaluates a basic expression against an item. If the key resolves into multiple values (e.g. several trader offers) any of them has to pass.
+     * Items with a property type the operation can't be applied to don't pass, the mismatch is collected in the context's "typeMismatches".
+     * @param expression Basic expression.
+     * @param item Item to evaluate the expression against.
+     * @param context Optional query context.
+     * @returns Evaluation result.
+     */
+    public static evaluateBasicExpression(expression: BasicExpression, item: any, context?: QueryContext): boolean
+    {
+        const negation = expression.negation ?? false;
+        let propValues: any[];
+        try 
+        {
+            propValues = this.resolvePropertyValues(expression.key, item, context);
+        }
+        catch (error) 
+        {
+            // Most likely an exception will be thrown by the getNestedProperty.
+            // Due to the nature of items, some of them might not have all the objects specified in propertyPath
+            // so treat the property as missing.
+            propValues = [];
+        }
+        if (expression.operation === "exists")
+        {
+            const result = (propValues.length > 0) === (expression.values[0] ?? true);
+            return negation ? !result : result;
+        }
+        if (propValues.length < 1) return false;
+
+        const typeMismatch = propValues.map(propValue => this.getTypeMismatch(expression, propValue)).find(mismatch => mismatch !== undefined);
+        if (typeMismatch !== undefined)
+        {
+            context?.typeMismatches.set(typeMismatch, (context.typeMismatches.get(typeMismatch) ?? 0) + 1);
+            return false;
+        }
+        try 
+        {
+            const result = propValues.some(propValue => this.testPropertyValue(expression, propValue, context));
+            return negation ? !result : result;
+        }
+        catch (error) 
+        {
+            // Malformed expressions (e.g. an invalid regex) are reported by the ConfigValidator, skip over the item.
+            return false;
+        }
+    }
+
+    /**
+     * Checks if the expression's operation and values can be applied to a resolved property value.
+     * @param expression Basic expression.
+     * @param propValue Resolved property value.
+     * @returns Description of the mismatch or undefined if types match.
+     */
+    public static getTypeMismatch(expression: BasicExpression, propValue: any): string
+    {
+        const {key, values} = expression;
+        const operation = expression.operation ?? "equals";
+        const propType = Array.isArray(propValue) ? "array" : typeof propValue;
+        let propertyTypes: string[];
+        let valueType: string;
+        switch (operation)
+        {
+            case "greater_than":
+            case "less_than":
+            case "greater_or_equal":
+            case "less_or_equal":
+            case "between":
+                propertyTypes = ["number"];
+                valueType = "number";
+                break;
+            case "length_equals":
+            case "length_greater_than":
+                propertyTypes = ["string", "array"];
+                valueType = "number";
+                break;
+            case "starts_with":
+            case "ends_with":
+            case "regex":
+            case "descends_from":
+                propertyTypes = ["string"];
+                valueType = "string";
+                break;
+            case "contains":
+                propertyTypes = ["string", "array"];
+                // Arrays can contain anything
+                valueType = propType === "string" ? "string" : undefined;
+                break;
+            case "equals":
+                valueType = propType === "array" ? undefined : propType;
+                break;
+        }
+        if (propertyTypes !== undefined && !propertyTypes.includes(propType))
+            return `"${operation}" can't be applied to "${key}" of type ${propType}, expected ${propertyTypes.join(" or ")}`;
+        const mismatchedValues = valueType === undefined ? [] : values.filter(value => typeof value !== valueType);
+        if (mismatchedValues.length > 0)
+            return `values ${JSON.stringify(mismatchedValues)} of "${operation}" don't match "${key}" of type ${valueType}`;
+        return undefined;
+    }
+
+    /**
+     * Tests a single resolved property value with the expression's operation and values. Negation is not applied.
+     * @param expression Basic expression.
+     * @param propValue Resolved property value.
+     * @param context Optional query context.
+     * @returns Test result. Throws if types or operation don't match, types should be checked with getTypeMismatch first.
+     */
+    private static testPropertyValue(expression: BasicExpression, propValue: any, context?: QueryContext): boolean
     {
         const {key, values} = expression;
         const operation = expression.operation ?? "equals";
-        const negation = expression.negation ?? false;
         const strict = expression.strict ?? false;
-        try 
+        const propType = typeof propValue;
+
+        let result = null;
+        const testMethod = strict ? values.every : values.some;
+        if (operation === "descends_from")
+        {
+            if (context == null) throw ("\"descends_from\" operation requires a query context to walk the parent chain.");
+            return testMethod.call(values, (value: string) => this.isDescendantOf(propValue, this.resolveCategoryIds(value, context), context.items));
+        }
+        if (operation === "equals")
         {
-            // const propValue = obj[key];
-            const propValue = Applicator.getNestedProperty(targetObj, key);
-            const propType = typeof propValue;
+            return testMethod.call(values, (value: any) => JSON.stringify(propValue) === JSON.stringify(value)); // Support array and object comparisons with JSON.stringify
+        }
+        if (operation === "length_equals")
+        {
+            return testMethod.call(values, (value: number) => propValue.length === value);
+        }
+        if (operation === "length_greater_than")
+        {
+            return testMethod.call(values, (value: number) => propValue.length > value);
+        }
+        if (operation === "between")
+        {
+            // Inclusive range, "values" are [min, max]
+            if (values.length !== 2) throw (`"between" operation with key "${key}" requires exactly two values: [min, max].`);
+            return propValue >= values[0] && propValue <= values[1];
+        }
+        switch (propType)
+        {
+            case "string":
+                switch (operation)
+                {
+                    case "contains": result = testMethod.call(values, (value: string) => this.getRegExp(value + "").test(propValue + "")); break;
+                    case "starts_with": result = testMethod.call(values, (value: string) => this.getRegExp("^" + value + "").test(propValue + "")); break;
+                    case "ends_with": result = testMethod.call(values, (value: string) => this.getRegExp("" + value + "$").test(propValue + "")); break;
+                    case "regex": result = testMethod.call(values, (value: string) => this.getRegExp(value, expression.flags ?? "").test(propValue)); break;
+                }
+                break;
+            case "number":
+                switch (operation)
+                {
+                    case "greater_than": result = testMethod.call(values, (value: number) => propValue > value); break;
+                    case "less_than": result = testMethod.call(values, (value: number) => propValue < value); break;
+                    case "greater_or_equal": result = testMethod.call(values, (value: number) => propValue >= value); break;
+                    case "less_or_equal": result = testMethod.call(values, (value: number) => propValue <= value); break;
+                }
+                break;
+            case "object": 
+                if (Array.isArray(propValue))
+                {
+                    switch (operation)
+                    {
+                        case "contains": result = testMethod.call(values, (value: any) => propValue.includes(value)); break;
+                    }
+                }
+                break;
+            // default: throw (`You shouldn't really reach this point. Query key is "${key}", values are "${values}. What kind of type is "${propType}"?`);
+            default: throw (`Can't apply "${operation}" operation to object property "${key}" of type "${propType}"`);
+        }
+        if (result === null) throw ("Evaluation didn't reach the proper test function. Unknown type or operation.");
+        return result;
+    }
+
+    /**
+     * Gets a compiled regular expression from the cache. Throws if the pattern is invalid.
+     * @param pattern Regular expression pattern.
+     * @param flags RegExp flags.
+     * @returns Regular expression, ready to be tested from the start of a string.
+     */
+    private static getRegExp(pattern: string, flags = ""): RegExp
+    {
+        const cacheKey = `${flags}/${pattern}`;
+        let regExp = this.regExpCache.get(cacheKey);
+        if (regExp === undefined)
+        {
+            regExp = new RegExp(pattern, flags);
+            this.regExpCache.set(cacheKey, regExp);
+        }
+        // "g" and "y" flags make test() continue from the last match
+        regExp.lastIndex = 0;
+        return regExp;
+    }
 
-            //Maybe null/undefined should be checked
-            if (propValue == null) return false;
+    /**
+     * Narrows down items which can match a query with the indexes of indexed keys. The query still has to be evaluated for every candidate,
+     * candidates only skip items which can't match. Items with a value of a mismatched type stay candidates, so the mismatch is still reported.
+     * @param query Query expression tree.
+     * @param context Query context.
+     * @returns Set of candidate item IDs, undefined if the query can't be narrowed down and every item is a candidate.
+     */
+    public static getCandidateIds(query: Expression, context: QueryContext): Set<string>
+    {
+        if (query.negation ?? false) return undefined;
+        if (this.isLogicalExpression(query))
+        {
+            const candidateSets = query.expressions.map(expression => this.getCandidateIds(expression, context));
+            if (query.condition === "or")
+            {
+                if (candidateSets.some(candidateIds => candidateIds === undefined)) return undefined;
+                return new Set(candidateSets.flatMap(candidateIds => [...candidateIds]));
+            }
+            const narrowingSets = candidateSets.filter(candidateIds => candidateIds !== undefined).sort((first, second) => first.size - second.size);
+            if (narrowingSets.length < 1) return undefined;
+            return new Set([...narrowingSets[0]].filter(itemId => narrowingSets.every(candidateIds => candidateIds.has(itemId))));
+        }
+        // Missing values pass "exists" with [false], they aren't in the index
+        if (!this.isBasicExpression(query) || !this.indexedKeys.includes(query.key) || query.operation === "exists") return undefined;
 
-            if (values.some(value => propType !== typeof value) && !Array.isArray(propValue))
+        const candidateIds = new Set<string>();
+        for (const { value, itemIds } of this.getIndex(query.key, context).values())
+        {
+            let isCandidate: boolean;
+            try
+            {
+                isCandidate = this.getTypeMismatch(query, value) !== undefined || this.testPropertyValue(query, value, context);
+            }
+            catch (error)
             {
-                throw (`Query values "${values.filter(value => propType !== typeof value)}" with key "${key}" don't match target property type ${propType}`);
+                isCandidate = true;
             }
+            if (isCandidate) itemIds.forEach(itemId => candidateIds.add(itemId));
+        }
+        return candidateIds;
+    }
 
-            let result = null;
-            const testMethod = strict ? values.every : values.some;
-            if (operation === "equals")
+    /**
+     * Gets the index of a key, builds it on first use. Values are grouped by their JSON, the same way "equals" compares them.
+     * @param key Query key without a namespace, e.g. "_parent" or "weapClass".
+     * @param context Query context.
+     * @returns Index of the key.
+     */
+    private static getIndex(key: string, context: QueryContext): QueryIndex
+    {
+        if (context.indexes.has(key)) return context.indexes.get(key);
+        const index: QueryIndex = new Map();
+        for (const itemId in context.items)
+        {
+            let propValues: any[];
+            try
             {
-                result = testMethod.call(values, (value: any) => JSON.stringify(propValue) === JSON.stringify(value)); // Support array and object comparisons with JSON.stringify
-                return negation ? !result : result;
+                propValues = this.resolvePropertyValues(key, context.items[itemId], context);
             }
-            switch (propType)
+            catch (error)
             {
-                case "string":
-                    switch (operation)
-                    {
-                        case "contains": result = testMethod.call(values, (value: string) => new RegExp(value + "").test(propValue + "")); break;
-                        case "starts_with": result = testMethod.call(values, (value: string) => new RegExp("^" + value + "").test(propValue + "")); break;
-                        case "ends_with": result = testMethod.call(values, (value: string) => new RegExp("" + value + "$").test(propValue + "")); break;
-                    }
-                    break;
-                case "number":
-                    switch (operation)
-                    {
-                        case "greater_than": result = testMethod.call(values, (value: number) => propValue > value); break;
-                        case "less_than": result = testMethod.call(values, (value: number) => propValue < value); break;
-                    }
-                    break;
-                case "object": 
-                    if (Array.isArray(propValue))
-                    {
-                        switch (operation)
-                        {
-                            case "contains": result = testMethod.call(values, (value: any) => propValue.includes(value)); break;
-                        }
-                    }
-                    break;
-                // default: throw (`You shouldn't really reach this point. Query key is "${key}", values are "${values}. What kind of type is "${propType}"?`);
-                default: throw (`Can't apply "${operation}" operation to object property "${key}" of type "${propType}"`);
+                propValues = [];
             }
-            if (result === null) throw ("Evaluation didn't reach the proper test function. Unknown type or operation.");
-            return negation ? !result : result;
+            for (const propValue of propValues)
+            {
+                const valueKey = JSON.stringify(propValue);
+                if (!index.has(valueKey)) index.set(valueKey, { value: propValue, itemIds: [] });
+                index.get(valueKey).itemIds.push(itemId);
+            }
+        }
+        context.indexes.set(key, index);
+        return index;
+    }
+
+    /**
+     * Evaluates a quantified expression against an item by evaluating it's nested expression against every element of the array property.
+     * @param expression Quantified expression.
+     * @param item Item (or array element of an outer quantified expression) to evaluate the expression against.
+     * @param context Optional query context.
+     * @returns Evaluation result.
+     */
+    public static evaluateQuantifiedExpression(expression: QuantifiedExpression, item: any, context?: QueryContext): boolean
+    {
+        const negation = expression.negation ?? false;
+        let elements: any[];
+        try 
+        {
+            elements = this.resolvePropertyValues(expression.key, item, context).find(propValue => Array.isArray(propValue));
         }
         catch (error) 
         {
-            // Most likely an exception will be thrown by the getNestedProperty.
-            // Due to the nature of items, some of them might not have all the objects specified in propertyPath
-            // so explicitly return false and skip over such items.
+            // Same as with basic expressions, some items don't have every object of the property path
             return false;
         }
+        if (elements === undefined) return false;
+        // Elements are evaluated like items: "_" keys are looked up on the element, others in it's "_props"
+        const testMethod = expression.quantifier === "all" ? elements.every : elements.some;
+        const result = testMethod.call(elements, (element: any) => element != null && typeof element === "object" && this.evaluateQuery(expression.expression, element, context));
+        return negation ? !result : result;
     }
 
-    public static evaluateLogicalExpression(expression: LogicalExpression, targetObj: any): boolean
+    public static evaluateLogicalExpression(expression: LogicalExpression, targetObj: any, context?: QueryContext): boolean
     {
         const negation = expression.negation ?? false; 
         const { condition, expressions } = expression;
         const testMethod = condition == "and" ? expressions.every : expressions.some;
         const result = testMethod.call(expressions, (expression: Expression) => 
         {
-            return this.evaluateQuery(expression, targetObj);
+            return this.evaluateQuery(expression, targetObj, context);
         });
         return negation ? !result : result;
     }
 
-    public static evaluateQuery(query: Expression, targetObj: any): boolean 
+    /**
+     * Evaluates a query against an item.
+     * @param query Query expression tree.
+     * @param targetObj Item to evaluate the query against.
+     * @param context Optional query context. Required by operations and keys which look outside of the item, e.g. "descends_from" or "handbook.Price".
+     * @returns Evaluation result.
+     */
+    public static evaluateQuery(query: Expression, targetObj: any, context?: QueryContext): boolean 
     {
         if (this.isQuery(query)) // Not really needed but just as a safeguard.
         {
             if (this.isLogicalExpression(query))
-                return this.evaluateLogicalExpression(query, targetObj);
+                return this.evaluateLogicalExpression(query, targetObj, context);
+            if (this.isQuantifiedExpression(query))
+                return this.evaluateQuantifiedExpression(query, targetObj, context);
             if (this.isBasicExpression(query))
-            // Maybe move isPrivateProperty check into evaluateBasicExpression
-                return this.evaluateBasicExpression(query, this.isPrivateProperty(query.key) ? targetObj : targetObj._props);
+                return this.evaluateBasicExpression(query, targetObj, context);
         }
         throw ("Wrong expression object structure.");
     }
@@ -119,9 +556,10 @@ class Query
         const asBasicExpr = (targetObj as BasicExpression);
         return targetObj != null && 
             typeof asBasicExpr.key === "string" && 
-            typeof asBasicExpr.operation === "string" || typeof asBasicExpr.operation === "undefined" &&
-            typeof asBasicExpr.negation === "boolean" || typeof asBasicExpr.negation === "undefined" &&
-            typeof asBasicExpr.strict === "boolean" || typeof asBasicExpr.strict === "undefined" &&
+            (typeof asBasicExpr.operation === "undefined" || this.operations.includes(asBasicExpr.operation)) &&
+            (typeof asBasicExpr.negation === "boolean" || typeof asBasicExpr.negation === "undefined") &&
+            (typeof asBasicExpr.strict === "boolean" || typeof asBasicExpr.strict === "undefined") &&
+            (typeof asBasicExpr.flags === "string" || typeof asBasicExpr.flags === "undefined") &&
             Array.isArray(asBasicExpr.values);
     }
 
@@ -130,22 +568,114 @@ class Query
         const asLogicExpr = (targetObj as LogicalExpression);
         return targetObj != null &&
             ["and", "or"].some(cond => cond === asLogicExpr.condition) &&
-            typeof asLogicExpr.negation === "boolean" || typeof asLogicExpr.negation === "undefined" &&
+            (typeof asLogicExpr.negation === "boolean" || typeof asLogicExpr.negation === "undefined") &&
             Array.isArray(asLogicExpr.expressions);
     }
 
+    public static isQuantifiedExpression(targetObj: any): targetObj is QuantifiedExpression
+    {
+        const asQuantifiedExpr = (targetObj as QuantifiedExpression);
+        return targetObj != null &&
+            typeof asQuantifiedExpr.key === "string" &&
+            ["any", "all"].some(quantifier => quantifier === asQuantifiedExpr.quantifier) &&
+            (typeof asQuantifiedExpr.negation === "boolean" || typeof asQuantifiedExpr.negation === "undefined") &&
+            asQuantifiedExpr.expression != null && typeof asQuantifiedExpr.expression === "object";
+    }
+
     public static isQuery(targetObj: any): targetObj is Expression
     {
         const isBasicExpr = this.isBasicExpression(targetObj);
         const isLogicExpr = this.isLogicalExpression(targetObj);
-        if (isBasicExpr && isLogicExpr) return false; // Can't be both at the same time
+        const isQuantifiedExpr = this.isQuantifiedExpression(targetObj);
+        if ([isBasicExpr, isLogicExpr, isQuantifiedExpr].filter(isType => isType).length > 1) return false; // Can't be several at the same time
         if (isBasicExpr)
             return true;
         if (isLogicExpr)
             return targetObj.expressions.every(expression => this.isQuery(expression));
+        if (isQuantifiedExpr)
+            return this.isQuery(targetObj.expression);
+        return false;
+    }
+
+    /**
+     * Checks if an item (or category node) ID is one of the categories or descends from one of them by walking the "_parent" chain.
+     * @param itemId ID to start walking from. The ID itself is included in the check.
+     * @param categoryIds Category node IDs to look for.
+     * @param dbItems Database items table.
+     * @returns Check result.
+     */
+    public static isDescendantOf(itemId: string, categoryIds: string[], dbItems: Record<string, any>): boolean
+    {
+        const visitedIds: string[] = [];
+        let currentId = itemId;
+        // Guard against broken (cyclic) parent chains in modded databases.
+        while (currentId != null && currentId !== "" && !visitedIds.includes(currentId))
+        {
+            if (categoryIds.includes(currentId)) return true;
+            visitedIds.push(currentId);
+            currentId = dbItems[currentId]?._parent;
+        }
         return false;
     }
 
+    /**
+     * Resolves a category reference into node IDs. A reference can be:
+     * - a raw ID, e.g. "5448e53e4bdc2d60728b4567";
+     * - a BaseClasses enum name, e.g. "BACKPACK", "Backpack" or "AssaultRifle";
+     * - a node "_name" from the database, e.g. "Backpack" or "Mod".
+     * Comparison of names ignores case, spaces and underscores.
+     * @param category Category reference.
+     * @param context Query context.
+     * @returns Array of resolved node IDs. Empty if nothing is found.
+     */
+    public static resolveCategoryIds(category: string, context: QueryContext): string[]
+    {
+        const cache = context.categoryIds;
+        if (cache.has(category)) return cache.get(category);
+        const dbItems = context.items;
+
+        const normalizedCategory = this.normalizeName(category);
+        let categoryIds: string[];
+        if (dbItems[category] != null)
+        {
+            categoryIds = [category];
+        }
+        else
+        {
+            const enumKey = Object.keys(context.baseClasses).find(key => this.normalizeName(key) === normalizedCategory);
+            categoryIds = enumKey != null ? [context.baseClasses[enumKey]] : [];
+            for (const id in dbItems)
+            {
+                const node = dbItems[id];
+                if (node?._type === "Node" && this.normalizeName(node._name) === normalizedCategory && !categoryIds.includes(id))
+                    categoryIds.push(id);
+            }
+        }
+        cache.set(category, categoryIds);
+        return categoryIds;
+    }
+
+    /**
+     * Resolves a trader reference (nickname, Traders enum name or ID) into a trader ID.
+     * @param trader Trader reference, e.g. "prapor", "Peacekeeper" or "54cb50c76803fa8b248b4571".
+     * @param context Query context.
+     * @returns Trader ID or undefined if the trader is unknown.
+     */
+    public static resolveTraderId(trader: string, context: QueryContext): string
+    {
+        return context.traderIds.get(this.normalizeName(trader));
+    }
+
+    /**
+     * Normalizes a human-readable name for comparison. Ignores case, spaces and underscores.
+     * @param name Name to normalize.
+     * @returns Normalized name.
+     */
+    private static normalizeName(name: string): string
+    {
+        return `${name}`.replace(/[\s_]/g, "").toLowerCase();
+    }
+
     /**
      * Primitive check to see where the property is private or not. Private properties are designated with an underscore.
      * @param propertyName String of a property name to be checked.
@@ -157,4 +687,4 @@ class Query
     }
 }
 
-export { Query, Expression, BasicExpression, LogicalExpression };
\ No newline at end of file
+export { Query, QueryOperation, Expression, BasicExpression, LogicalExpression, QuantifiedExpression, QueryContext, QueryEnums, QueryIndex, QueryTables, TraderOffer };
\ No newline at end of file
@@ -0,0 +1,111 @@
+import fs from "fs";
+import path from "path";
+
+import { ChangeJournalEntry } from "./change_journal";
+import { Overwrite } from "./selector_pipeline";
+
+/**
+ * Manual overwrites which restore original values of every property changed in a run, built from the change journal.
+ * The first recorded old value of an item property is the value it had before any selector or overwrite changed it.
+ *
+ * Revert overwrites are keyed by item "_id" and only use "set", so they can be pasted into "manual_overwrite.json" as they are.
+ * Trader assort offers can't be changed by manual overwrites and are left out.
+ */
+class RevertFile
+{
+    // Source -> item ID -> revert overwrite
+    private sourceOverwrites = new Map<string, Record<string, Overwrite>>();
+    private skippedCount = 0;
+
+    /**
+     * Collects original values from journal entries. Every property is grouped under the selector (or overwrite) which changed it first.
+     * @param entries Change journal entries of a run, in the order the changes were applied.
+     */
+    constructor(entries: ChangeJournalEntry[])
+    {
+        const revertedProperties = new Set<string>();
+        for (const entry of entries)
+        {
+            if (entry.property.startsWith("traderAssort."))
+            {
+                ++this.skippedCount;
+                continue;
+            }
+            // Later entries of the same property hold values already changed by the mod
+            const propertyKey = `${entry.itemId}:${entry.property}`;
+            if (revertedProperties.has(propertyKey)) continue;
+            revertedProperties.add(propertyKey);
+
+            if (!this.sourceOverwrites.has(entry.source)) this.sourceOverwrites.set(entry.source, {});
+            const overwrites = this.sourceOverwrites.get(entry.source);
+            overwrites[entry.itemId] ??= { set: {} };
+            overwrites[entry.itemId].set[entry.property] = entry.oldValue;
+        }
+    }
+
+    /**
+     * Gets revert overwrites of a single selector or overwrite.
+     * @param source Source name from the change journal, e.g. "scarl_tweaks" or "manual_overwrite:helmet_altyn".
+     * @returns Overwrites keyed by item "_id", empty if the source changed nothing.
+     */
+    public getOverwrites(source: string): Record<string, Overwrite>
+    {
+        return this.sourceOverwrites.get(source) ?? {};
+    }
+
+    /**
+     * Gets revert overwrites of every source merged into one object.
+     * @returns Overwrites keyed by item "_id".
+     */
+    public getAllOverwrites(): Record<string, Overwrite>
+    {
+        const allOverwrites: Record<string, Overwrite> = {};
+        for (const overwrites of this.sourceOverwrites.values())
+        {
+            for (const itemId in overwrites)
+            {
+                allOverwrites[itemId] ??= { set: {} };
+                Object.assign(allOverwrites[itemId].set, overwrites[itemId].set);
+            }
+        }
+        return allOverwrites;
+    }
+
+    public getSources(): string[]
+    {
+        return [...this.sourceOverwrites.keys()];
+    }
+
+    /**
+     * Number of trader assort changes which can't be reverted with manual overwrites.
+     */
+    public get skipped(): number
+    {
+        return this.skippedCount;
+    }
+
+    /**
+     * Writes "revert_overwrite.json" with every reverted property and a file per source into "by_source".
+     * Source names are made file name safe, e.g. "manual_overwrite:helmet_altyn" -> "manual_overwrite_helmet_altyn.json".
+     * @param directory Output directory, created if missing. Files of the previous run are removed.
+     * @returns Array of written file paths.
+     */
+    public write(directory: string): string[]
+    {
+        const sourceDirectory = path.join(directory, "by_source");
+        fs.rmSync(sourceDirectory, { recursive: true, force: true });
+        fs.mkdirSync(sourceDirectory, { recursive: true });
+        const allPath = path.join(directory, "revert_overwrite.json");
+        fs.writeFileSync(allPath, JSON.stringify(this.getAllOverwrites(), null, 4));
+        const writtenPaths = [allPath];
+        for (const [source, overwrites] of this.sourceOverwrites)
+        {
+            const sourcePath = path.join(sourceDirectory, `${source.replace(/[^\w.-]/g, "_")}.json`);
+            fs.writeFileSync(sourcePath, JSON.stringify(overwrites, null, 4));
+            writtenPaths.push(sourcePath);
+        }
+        return writtenPaths;
+    }
+}
+
+export { RevertFile };
@@ -0,0 +1,906 @@
+import { IDatabaseTables } from "@spt-aki/models/spt/server/IDatabaseTables";
+import { performance } from "perf_hooks";
+
+import { LogLevel, VerboseLogger } from "./verbose_logger";
+import { LogBackgroundColor, LogTextColor } from "./log_colors";
+import { ChangeJournal } from "./change_journal";
+import { Applicator, ApplicatorChangeType, ApplicatorLogFormat } from "./applicator";
+import { Expression, Query, QueryContext } from "./query";
+import { AssortOffer, TraderAssort } from "./trader_assort";
+import { ItemEconomy } from "./item_economy";
+import { ConfigValidator } from "./config_validator";
+
+/**
+ * Change blocks keyed by property paths. Blocks are applied in this order:
+ * - "multiply", "set" - multiply numbers, set any values (formulas included);
+ * - "add" - add numbers to numeric properties or elements to array properties;
+ * - "remove" - remove elements from array properties;
+ * - "clamp" ({"min", "max"}), "floor_at", "cap_at" - keep numeric properties within bounds.
+ * "round" keeps integer properties integer after numeric changes: true for known ones like "StackMaxSize" or "cellsH", or an array of property names.
+ */
+type Changes = {
+    multiply?: object;
+    set?: object;
+    add?: object;
+    remove?: object;
+    clamp?: Record<string, { min?: number, max?: number }>;
+    // Config keys are snake case like query operations
+    "floor_at"?: Record<string, number>;
+    "cap_at"?: Record<string, number>;
+    round?: boolean | string[];
+}
+
+type ChangeBlock = Exclude<keyof Changes, "round">;
+
+/**
+ * What a selector changes:
+ * - "items" - properties of matching items ("_props"), their handbook and flea market prices ("handbook.Price", "ragfair.price");
+ * - "traderAssort" - trader assort offers of matching items, optionally limited to "traders".
+ */
+type SelectorTarget = "items" | "traderAssort";
+
+type Selector = Changes & {
+    query: Expression;
+    priority?: number;
+    target?: SelectorTarget;
+    traders?: string[];
+    // Disabled selectors are skipped, enabled by default
+    enabled?: boolean;
+    description?: string;
+    tags?: string[];
+    // Console and log file level while the selector is applied, e.g. "verbose" to see the changes of a single selector
+    logLevel?: LogLevel;
+}
+
+/**
+ * Decides which selectors run by their tags ("config.json" options):
+ * - "disabledTags" - selectors with any of these tags are skipped;
+ * - "enabledTags" - if not empty, tagged selectors need atleast one of these tags. Untagged selectors always run.
+ */
+type SelectorActivation = {
+    enabledTags?: string[];
+    disabledTags?: string[];
+}
+
+type SelectorMetaData = {
+    matchingIds: string[];
+    affectedIds: string[];
+    // Property paths, for "traderAssort" selectors one per changed offer: "traderAssort.<traderId>.<assortId>.<property>"
+    changedProperties: string[];
+    priority?: number;
+    isValid: boolean;
+}
+
+type Overwrite = Changes;
+
+/**
+ * What an overwrite key refers to, checked in this order:
+ * - "_id" - item ID;
+ * - "_name" - internal item name;
+ * - "Name", "ShortName" - localized in-game names from "locales.global.<language>", case insensitive.
+ */
+type OverwriteIdentifierType = "_id" | "_name" | "Name" | "ShortName";
+
+type OverwriteMetaData = {
+    name: string;
+    identifierType: OverwriteIdentifierType;
+    changedProperties: string[];
+}
+
+/**
+ * Defines how conflicts are resolved when several selectors change the same property of the same item:
+ * - "priority" - only the selector with the highest priority changes the property;
+ * - "compose" - every selector changes the property in priority order, so multipliers compose;
+ * - "error" - none of the selectors change the property and an error is reported.
+ */
+type ConflictPolicy = "priority" | "compose" | "error";
+
+type PropertyConflict = {
+    itemId: string;
+    property: string;
+    // In application order
+    selectorKeys: string[];
+    resolvedByOverwrite: boolean;
+}
+
+/**
+ * The selector and manual overwrite pipeline: validation, conflict resolution and application of changes to database items.
+ * Doesn't need the dependency container, so it can be used by the mod as well as standalone tools like the CLI.
+ */
+class SelectorPipeline
+{
+    // Change blocks in the order they are applied
+    private static changeBlockTypes: Record<ChangeBlock, ApplicatorChangeType> = {
+        multiply: ApplicatorChangeType.MULTIPLY,
+        set: ApplicatorChangeType.SET_VALUE,
+        add: ApplicatorChangeType.ADD,
+        remove: ApplicatorChangeType.REMOVE_ELEMENTS,
+        clamp: ApplicatorChangeType.CLAMP,
+        "floor_at": ApplicatorChangeType.FLOOR_AT,
+        "cap_at": ApplicatorChangeType.CAP_AT
+    };
+
+    private logger: VerboseLogger;
+    private applicator: Applicator;
+    private journal: ChangeJournal;
+    private queryContext: QueryContext;
+    // Selector and overwrite keys -> files they are loaded from, shown in messages
+    private selectorFiles = new Map<string, string>();
+    private overwriteFiles = new Map<string, string>();
+
+    constructor(logger: VerboseLogger, applicator: Applicator, journal: ChangeJournal, queryContext: QueryContext)
+    {
+        this.logger = logger;
+        this.applicator = applicator;
+        this.journal = journal;
+        this.queryContext = queryContext;
+    }
+
+    /**
+     * Runs the whole pipeline: validates selectors and overwrites, resolves conflicts and applies the changes.
+     * @param dbItems Database items to apply the changes to.
+     * @param selectors Selectors keyed by name.
+     * @param overwrites Manual overwrites keyed by item "_id", "_name" or localized "Name"/"ShortName".
+     * @param conflictPolicy Policy to resolve conflicts between selectors with.
+     * @param language Language of localized overwrite keys.
+     */
+    public run(dbItems: IDatabaseTables, selectors: Record<string, Selector>, overwrites: Record<string, Overwrite>, conflictPolicy: ConflictPolicy = "priority", language = "en"): void
+    {
+        // Collect selectors meta to check for intersections and validate selectors
+        const selectorsMetaData = this.collectSelectorsMetaData(dbItems, selectors);
+        // Collect overwrite meta
+        // And check if the names can be found in database
+        const overwritesMetaData = this.collectOverwritesMetaData(dbItems, overwrites, language);
+
+        // Check if selectors modify the same properties for the same items
+        // and resolve every item/property conflict individually with the configured policy.
+        if (!["priority", "compose", "error"].includes(conflictPolicy))
+        {
+            this.logger.explicitError(`[ERROR] Unknown "conflictPolicy" ${JSON.stringify(conflictPolicy)} in config. Falling back to "priority".`);
+            conflictPolicy = "priority";
+        }
+        const orderedSelectorKeys = this.getOrderedSelectorKeys(selectorsMetaData);
+        const propertyConflicts = this.getPropertyConflicts(orderedSelectorKeys, selectorsMetaData, overwritesMetaData);
+        const conflictExclusions = this.resolvePropertyConflicts(propertyConflicts, conflictPolicy);
+        this.reportPropertyConflicts(dbItems, propertyConflicts, conflictPolicy, selectorsMetaData);
+
+        // Apply Selector Tweaks
+        // Use orderedSelectorKeys to loop through, as it skips invalid selectors (no matches or errors in JSON structure)
+        // If there are no valid selectors - do nothing
+        if (orderedSelectorKeys.length > 0)
+        {
+            this.logger.explicitInfo("Applying Selector Tweaks...");
+            const startTime = performance.now();
+
+            for (const selectorKey of orderedSelectorKeys)
+            {
+                const selectorMeta = selectorsMetaData.get(selectorKey);
+                const selector: Selector = selectors[selectorKey];
+
+                // Manual overwrite properties and properties lost in conflicts are left alone by the selector.
+                const excludedPropertiesMap = new Map<string, string[]>();
+                for (const itemId of overwritesMetaData.keys())
+                    excludedPropertiesMap.set(itemId, [...overwritesMetaData.get(itemId).changedProperties]);
+                for (const [itemId, properties] of conflictExclusions.get(selectorKey) ?? new Map<string, string[]>())
+                    excludedPropertiesMap.set(itemId, (excludedPropertiesMap.get(itemId) ?? []).concat(properties));
+
+                this.logger.setSelectorLevel(selector.logLevel);
+                try
+                {
+                    this.logger.log(`Applying "${selectorKey}"${selector.description != null ? ` (${selector.description})` : ""}${this.getSelectorFileSuffix(selectorKey)}...`, LogTextColor.BLUE);
+                    // If selector affects no items go through matching items to show errors. No changes will be applied anyway.
+                    const itemIds = selectorMeta.affectedIds.length < 1 ? selectorMeta.matchingIds : selectorMeta.affectedIds;
+                    const tweakResult = this.applySelector(dbItems, selector, selectorKey, itemIds, excludedPropertiesMap);
+
+                    this.logger.explicitInfo(`"${selectorKey}" made ${tweakResult.changeCount} changes to ${tweakResult.changedItemCount} items`);
+                }
+                finally
+                {
+                    this.logger.setSelectorLevel();
+                }
+            }
+            this.logger.explicitInfo(`Applied ${orderedSelectorKeys.length} selectors in ${(performance.now() - startTime).toFixed(1)} ms`);
+        }
+        
+        // Apply Manual Overwrite Tweaks
+        // Use overwriteMetaData to loop through, as it skips items which were not found (potentially due to a wrong name defined in the config)
+        // If there are no valid overwrite items - do nothing
+        if (overwritesMetaData.size > 0)
+        {
+            this.logger.explicitInfo("Applying Manual Overwrite Tweaks...");
+
+            for (const itemId of overwritesMetaData.keys())
+            {
+                const itemName = overwritesMetaData.get(itemId).name;
+                const identifierType = overwritesMetaData.get(itemId).identifierType;
+                const overwriteSelector: Selector = {
+                    ...overwrites[itemName],
+                    query: {
+                        key: "_id",
+                        operation: "equals",
+                        values: [itemId]
+                    }
+                }
+                this.logger.log(`Applying "${itemName}" overwrite (by ${identifierType}, id: ${itemId})${this.getOverwriteFileSuffix(itemName)}...`, LogTextColor.BLUE);
+                const overwriteResult = this.applySelector(dbItems, overwriteSelector, `manual_overwrite:${itemName}`, [itemId]);
+                this.logger.explicitInfo(`Manual Overwrite made ${overwriteResult.changeCount} changes to "${itemName}" (by ${identifierType})`);
+            }
+        }
+        // Selectors could have changed indexed values, e.g. "weapClass"
+        this.queryContext.indexes.clear();
+    }
+
+    /**
+     * Sets the files selectors and overwrites are loaded from, so messages can point to the file of a selector or overwrite.
+     * @param selectorFiles Selector keys -> file names.
+     * @param overwriteFiles Overwrite keys -> file names.
+     */
+    public setConfigFiles(selectorFiles: Map<string, string>, overwriteFiles: Map<string, string>): void
+    {
+        this.selectorFiles = selectorFiles;
+        this.overwriteFiles = overwriteFiles;
+    }
+
+    /**
+     * Gets a message suffix with the file of a selector, e.g. " [selectors/ammo.json]".
+     * @param selectorKey Selector key.
+     * @returns Suffix, empty if the file is unknown.
+     */
+    private getSelectorFileSuffix(selectorKey: string): string
+    {
+        return this.selectorFiles.has(selectorKey) ? ` [${this.selectorFiles.get(selectorKey)}]` : "";
+    }
+
+    private getOverwriteFileSuffix(overwriteKey: string): string
+    {
+        return this.overwriteFiles.has(overwriteKey) ? ` [${this.overwriteFiles.get(overwriteKey)}]` : "";
+    }
+
+    /**
+     * Splits selectors into active and skipped ones by their "enabled" flag and tags.
+     * @param selectors Selectors keyed by name.
+     * @param activation Enabled and disabled tags.
+     * @returns Active selectors and a map of skipped selector names to the reason they are skipped.
+     */
+    public filterSelectors(selectors: Record<string, Selector>, activation: SelectorActivation = {}): { selectors: Record<string, Selector>, skipped: Map<string, string> }
+    {
+        const activeSelectors: Record<string, Selector> = {};
+        const skipped = new Map<string, string>();
+        const enabledTags = activation.enabledTags ?? [];
+        const disabledTags = activation.disabledTags ?? [];
+        for (const selectorKey in selectors)
+        {
+            const selector = selectors[selectorKey];
+            // Malformed tags are reported by the validator, the selector isn't skipped because of them
+            const tags = Array.isArray(selector?.tags) ? selector.tags : [];
+            const disabledTag = tags.find(tag => disabledTags.includes(tag));
+            if (selector?.enabled === false)
+                skipped.set(selectorKey, "\"enabled\" is false");
+            else if (disabledTag !== undefined)
+                skipped.set(selectorKey, `tag "${disabledTag}" is in "disabledTags"`);
+            else if (enabledTags.length > 0 && tags.length > 0 && !tags.some(tag => enabledTags.includes(tag)))
+                skipped.set(selectorKey, `none of it's tags ${JSON.stringify(tags)} are in "enabledTags"`);
+            else
+                activeSelectors[selectorKey] = selector;
+        }
+        return { selectors: activeSelectors, skipped: skipped };
+    }
+
+    /**
+     * Reports skipped selectors with the reason.
+     * @param skipped Map of skipped selector names to reasons.
+     */
+    public reportSkippedSelectors(skipped: Map<string, string>): void
+    {
+        if (skipped.size < 1) return;
+        this.logger.explicitInfo(`Skipped ${skipped.size} selectors:`);
+        for (const [selectorKey, reason] of skipped)
+            this.logger.explicitLog(`├ "${selectorKey}": ${reason}${this.getSelectorFileSuffix(selectorKey)}`, LogTextColor.CYAN);
+    }
+
+    /**
+     * Validates every selector and collects meta data for it.
+     * @param dbItems Database items.
+     * @param selectors Selectors keyed by name.
+     * @returns A map of selector names to meta data. Invalid selectors are included and marked with "isValid".
+     */
+    public collectSelectorsMetaData(dbItems: IDatabaseTables, selectors: Record<string, Selector>): Map<string, SelectorMetaData>
+    {
+        const selectorsMetaData = new Map<string, SelectorMetaData>();
+        const startTime = performance.now();
+        for (const selectorKey in selectors)
+        {
+            const selectorStartTime = performance.now();
+            const selectorMeta = this.getSelectorMetaData(dbItems, selectors[selectorKey], selectorKey);
+            selectorsMetaData.set(selectorKey, selectorMeta);
+            this.logger.log(`"${selectorKey}" evaluated in ${(performance.now() - selectorStartTime).toFixed(1)} ms: ${selectorMeta.matchingIds.length} matching, ${selectorMeta.affectedIds.length} affected items`, LogTextColor.GRAY);
+        }
+        if (selectorsMetaData.size > 0)
+            this.logger.explicitInfo(`Evaluated ${selectorsMetaData.size} selectors against ${Object.keys(dbItems).length} items in ${(performance.now() - startTime).toFixed(1)} ms`);
+        return selectorsMetaData;
+    }
+
+    /**
+     * Finds overwrite items in the database and collects meta data for them.
+     * @param dbItems Database items.
+     * @param overwrites Manual overwrites keyed by item "_id", "_name" or localized "Name"/"ShortName".
+     * @param language Language of localized overwrite keys.
+     * @returns A map of item IDs to meta data. Items which couldn't be found or are ambiguous are reported and skipped.
+     */
+    public collectOverwritesMetaData(dbItems: IDatabaseTables, overwrites: Record<string, Overwrite>, language = "en"): Map<string, OverwriteMetaData>
+    {
+        const overwritesMetaData = new Map<string, OverwriteMetaData>();
+        const identifierIndexes = this.getOverwriteIdentifierIndexes(dbItems, language);
+        for (const itemName in overwrites)
+        {
+            const overwrite: Overwrite = overwrites[itemName];
+            const issues = ConfigValidator.validateOverwrite(overwrite, `overwrites.${itemName}`);
+            ConfigValidator.report(this.logger, issues, this.overwriteFiles.get(itemName));
+            if (ConfigValidator.hasErrors(issues)) continue;
+            const resolved = this.resolveOverwriteItemIds(dbItems, identifierIndexes, itemName);
+            if (resolved === undefined)
+            {
+                this.logger.explicitWarning(`[WARNING] "${itemName}" couldn't be found in the database. Check if the name is correct, it can be an "_id", "_name" or in-game "Name"/"ShortName" in "${language}" language.${this.getOverwriteFileSuffix(itemName)}`);
+            }
+            else if (resolved.itemIds.length > 1)
+            {
+                const candidates = resolved.itemIds.map(itemId => `${itemId} (${dbItems[itemId]._name})`).join(", ");
+                this.logger.explicitWarning(`[WARNING] "${itemName}" is ambiguous, ${resolved.itemIds.length} items have this ${resolved.identifierType}: ${candidates}. Use one of the "_id" or "_name" instead.${this.getOverwriteFileSuffix(itemName)}`);
+            }
+            else if (overwritesMetaData.has(resolved.itemIds[0]))
+            {
+                this.logger.explicitWarning(`[WARNING] "${itemName}" refers to the same item as "${overwritesMetaData.get(resolved.itemIds[0]).name}" (id: ${resolved.itemIds[0]}) and is skipped. Merge them into one overwrite.${this.getOverwriteFileSuffix(itemName)}`);
+            }
+            else
+            {
+                overwritesMetaData.set(resolved.itemIds[0], {
+                    name: itemName,
+                    identifierType: resolved.identifierType,
+                    changedProperties: this.getConcreteProperties(resolved.itemIds[0], SelectorPipeline.getChangedProperties(overwrite))
+                });
+            }
+        }
+        return overwritesMetaData;
+    }
+
+    /**
+     * Indexes items by every overwrite identifier type except "_id", so overwrite keys are looked up without going through all items each time.
+     * @param dbItems Database items.
+     * @param language Language of localized names.
+     * @returns A map of identifier types to identifier -> item IDs maps. Localized names are lowercased.
+     */
+    private getOverwriteIdentifierIndexes(dbItems: IDatabaseTables, language: string): Map<OverwriteIdentifierType, Map<string, string[]>>
+    {
+        const locale = this.queryContext.locales[language] ?? {};
+        const indexes = new Map<OverwriteIdentifierType, Map<string, string[]>>([
+            ["_name", new Map<string, string[]>()],
+            ["Name", new Map<string, string[]>()],
+            ["ShortName", new Map<string, string[]>()]
+        ]);
+        const addToIndex = (identifierType: OverwriteIdentifierType, identifier: string, itemId: string): void =>
+        {
+            if (identifier == null) return;
+            const index = indexes.get(identifierType);
+            if (!index.has(identifier)) index.set(identifier, []);
+            index.get(identifier).push(itemId);
+        };
+        for (const itemId in dbItems)
+        {
+            addToIndex("_name", dbItems[itemId]._name, itemId);
+            addToIndex("Name", locale[`${itemId} Name`]?.toLowerCase(), itemId);
+            addToIndex("ShortName", locale[`${itemId} ShortName`]?.toLowerCase(), itemId);
+        }
+        return indexes;
+    }
+
+    /**
+     * Resolves an overwrite key into item IDs using the first identifier type which matches anything.
+     * @param dbItems Database items.
+     * @param identifierIndexes Indexes built with getOverwriteIdentifierIndexes.
+     * @param overwriteKey Overwrite key.
+     * @returns Identifier type and every matching item ID (more than one if ambiguous), undefined if nothing matches.
+     */
+    private resolveOverwriteItemIds(dbItems: IDatabaseTables, identifierIndexes: Map<OverwriteIdentifierType, Map<string, string[]>>, overwriteKey: string): { identifierType: OverwriteIdentifierType, itemIds: string[] }
+    {
+        if (dbItems[overwriteKey] != null) return { identifierType: "_id", itemIds: [overwriteKey] };
+        for (const [identifierType, index] of identifierIndexes)
+        {
+            const itemIds = index.get(identifierType === "_name" ? overwriteKey : overwriteKey.toLowerCase());
+            if (itemIds !== undefined) return { identifierType: identifierType, itemIds: itemIds };
+        }
+        return undefined;
+    }
+
+    /**
+     * Orders valid selectors for application. Selectors are applied in ascending priority order, selectors with equal priority keep their order from the config.
+     * That way the highest priority selector is always the last one to change a property.
+     * @param selectorsMetaData Selector meta data.
+     * @returns Array of valid selector keys in application order.
+     */
+    public getOrderedSelectorKeys(selectorsMetaData: Map<string, SelectorMetaData>): string[]
+    {
+        return [...selectorsMetaData.keys()]
+            .filter(selectorKey => selectorsMetaData.get(selectorKey).isValid)
+            .sort((a, b) => (selectorsMetaData.get(a).priority ?? 0) - (selectorsMetaData.get(b).priority ?? 0));
+    }
+
+    /**
+     * Applies a selector to database items.
+     * @param dbItems Database tables of the server which contain items.
+     * @param selector A selector that will be applied.
+     * @param sourceName Name of the selector or overwrite, recorded in the change journal.
+     * @param itemIds An optional array of item IDs which match the selector query, e.g. SelectorMetaData.matchingIds/affectedIds or a single item.
+     * The query isn't evaluated again for them, so items keep matching even if an earlier selector changed a queried property. Matching items are looked up if undefined.
+     * @param excludedPropertiesMap An optional map of item IDs to properties which must not be changed. Designed to preserve "manual_overwrite.JSON" priority and to skip properties lost in conflicts.
+     * @param validatorFunc Optional, if the default 'isValidItem' validator is not enough.
+     * @returns An object with the operation result: change count, changed item count, array of changed item IDs
+     */
+    // In applicatorFunc specification leave logFormat as required parameter to incentivize the use of ApplicatorLogFormat.LIST_ENTRY.
+    public applySelector(dbItems: IDatabaseTables, selector: Selector, sourceName: string, itemIds: string[], excludedPropertiesMap: Map<string, string[]> = new Map<string, string[]>(), validatorFunc: (item: any) => boolean = this.isValidItem): {changeCount: number, changedItemCount: number, changedItemIds: string[]}
+    {
+        let changeCount = 0;
+        let changedItemCount = 0;
+        const changedItemIds: string[] = [];
+
+        for (const id of itemIds ?? this.getMatchingItemIds(dbItems, selector, validatorFunc)) 
+        {
+            const item = dbItems[id];
+            const properties = item._props;
+            const name = item._name;
+            
+            if (validatorFunc(item) && SelectorPipeline.hasChanges(selector))
+            {
+                this.logger.log(`Item: ${name} - id: ${id}`, LogTextColor.CYAN);
+                let totalResult = 0;
+                if ((selector.target ?? "items") === "traderAssort")
+                {
+                    for (const offer of this.getAssortOffers(id, selector))
+                    {
+                        this.logger.log(`Offer: ${offer.assortId} - trader: ${this.queryContext.traders[offer.traderId]?.base?.nickname ?? offer.traderId}`, LogTextColor.CYAN);
+                        const offerPrefix = SelectorPipeline.getOfferPropertyPrefix(offer);
+                        this.journal.setSource(id, name, sourceName, offerPrefix);
+                        totalResult += this.applyChanges(offer.view, selector, excludedPropertiesMap.get(id), offerPrefix);
+                    }
+                }
+                else
+                {
+                    this.journal.setSource(id, name, sourceName);
+                    totalResult += this.applyChanges(properties, this.filterChanges(selector, key => !ItemEconomy.isEconomyProperty(key)), excludedPropertiesMap.get(id));
+                    // "handbook.Price" and "ragfair.price" are applied to the item's economy values, keys are kept as they are.
+                    totalResult += this.applyChanges(ItemEconomy.getView(this.queryContext, id), this.filterChanges(selector, key => ItemEconomy.isEconomyProperty(key)), excludedPropertiesMap.get(id));
+                }
+                if (totalResult > 0)
+                {
+                    changeCount+= totalResult;
+                    ++changedItemCount;
+                    changedItemIds.push(id);
+                }
+            }
+        }
+        // Change rows are buffered for alignment, the selector's rows must not wait for the next message
+        this.logger.flush();
+        return {changeCount: changeCount, changedItemCount: changedItemCount, changedItemIds: changedItemIds};
+    }
+
+    /**
+     * Applies every change block to a target object.
+     * @param targetObj Target object, e.g. item "_props" or an assort offer view.
+     * @param changes Changes to apply.
+     * @param excludedProperties Optional properties which must not be changed, e.g. to let manual overwrite take priority.
+     * @param propertyPrefix Prefix of the target's properties in "excludedProperties".
+     * @returns Number of changes made.
+     */
+    private applyChanges(targetObj: object, changes: Changes, excludedProperties?: string[], propertyPrefix = ""): number
+    {
+        // If target has excluded properties filter them out
+        // Not the most precise check, but we don't really care if "changedProperties" were multiplied or set.
+        const isExcluded = excludedProperties != null;
+        // Exclusions hold concrete paths, so wildcard and predicate paths are expanded first
+        const concreteChanges = this.expandChanges(targetObj, changes);
+        const filteredChanges = isExcluded ? this.filterChanges(concreteChanges, key => !excludedProperties.includes(propertyPrefix + key)) : concreteChanges;
+        let changeCount = 0;
+        for (const block in SelectorPipeline.changeBlockTypes)
+            changeCount += this.applicator.tryToApplyAllChanges(targetObj, filteredChanges[block], SelectorPipeline.changeBlockTypes[block], ApplicatorLogFormat.LIST_ENTRY, changes.round ?? false);
+        return changeCount;
+    }
+
+    /**
+     * Filters properties of every change block, undefined blocks stay undefined.
+     * @param changes Changes to filter.
+     * @param predicate Property filter.
+     * @returns Filtered changes.
+     */
+    private filterChanges(changes: Changes, predicate: (key: string) => boolean): Changes
+    {
+        const filteredChanges: Changes = { round: changes.round };
+        for (const block in SelectorPipeline.changeBlockTypes)
+            filteredChanges[block] = changes[block] == null ? changes[block] : Applicator.filterObjectProperties(changes[block], predicate);
+        return filteredChanges;
+    }
+
+    /**
+     * Expands wildcard and predicate paths of every change block into concrete paths of the target object, undefined blocks stay undefined.
+     * @param targetObj Target object, e.g. item "_props".
+     * @param changes Changes to expand.
+     * @returns Expanded changes.
+     */
+    private expandChanges(targetObj: object, changes: Changes): Changes
+    {
+        const expandedChanges: Changes = { round: changes.round };
+        for (const block in SelectorPipeline.changeBlockTypes)
+            expandedChanges[block] = changes[block] == null ? changes[block] : Applicator.expandPropertyPaths(targetObj, changes[block]);
+        return expandedChanges;
+    }
+
+    /**
+     * Resolves changed properties of an item into concrete paths, e.g. "Grids.*._props.cellsV" into "Grids.0._props.cellsV" and "Grids.1._props.cellsV".
+     * Trader assort properties are limited to the item's own offers, economy properties are kept as they are.
+     * @param itemId Item ID.
+     * @param properties Changed properties.
+     * @returns Array of unique concrete properties.
+     */
+    private getConcreteProperties(itemId: string, properties: string[]): string[]
+    {
+        const itemProperties = this.queryContext.items[itemId]?._props ?? {};
+        const offerPrefixes = (this.queryContext.traderOffers.get(itemId) ?? []).map(offer => SelectorPipeline.getOfferPropertyPrefix(offer));
+        return [...new Set(properties.flatMap(property => 
+        {
+            if (property.startsWith("traderAssort.")) return offerPrefixes.some(prefix => property.startsWith(prefix)) ? [property] : [];
+            if (ItemEconomy.isEconomyProperty(property)) return [property];
+            try 
+            {
+                return Applicator.resolvePropertyPaths(itemProperties, property);
+            }
+            catch (error) 
+            {
+                return [];
+            }
+        }))];
+    }
+
+    /**
+     * Checks if atleast one change can be applied to a target object.
+     * @param targetObj Target object, e.g. item "_props" or an assort offer view.
+     * @param changes Changes to check.
+     * @returns Boolean check result.
+     */
+    private canApplyAnyChanges(targetObj: object, changes: Changes): boolean
+    {
+        return Object.keys(SelectorPipeline.changeBlockTypes).some(block => this.applicator.canApplyAnyChanges(targetObj, changes[block], SelectorPipeline.changeBlockTypes[block]));
+    }
+
+    /**
+     * Checks if atleast one change block is defined.
+     * @param changes Changes to check.
+     * @returns Boolean check result.
+     */
+    private static hasChanges(changes: Changes): boolean
+    {
+        return Object.keys(SelectorPipeline.changeBlockTypes).some(block => changes[block] != null);
+    }
+
+    /**
+     * Gets every property changed by any change block.
+     * @param changes Changes to get properties of.
+     * @returns Array of unique property paths.
+     */
+    private static getChangedProperties(changes: Changes): string[]
+    {
+        return [...new Set(Object.keys(SelectorPipeline.changeBlockTypes).flatMap(block => Object.keys(changes[block] ?? {})))];
+    }
+
+    /**
+     * Gets the prefix of an offer's properties, the same one the change journal records them with.
+     * @param offer Trader assort offer.
+     * @returns Prefix, e.g. "traderAssort.<traderId>.<assortId>.".
+     */
+    private static getOfferPropertyPrefix(offer: { traderId: string, assortId: string }): string
+    {
+        return `traderAssort.${offer.traderId}.${offer.assortId}.`;
+    }
+
+    /**
+     * Gets trader assort offers of an item, limited to the selector's "traders" if defined.
+     * @param itemId Item ID.
+     * @param selector A "traderAssort" selector.
+     * @returns Array of offers.
+     */
+    private getAssortOffers(itemId: string, selector: Selector): AssortOffer[]
+    {
+        const traderIds = selector.traders?.map(trader => Query.resolveTraderId(trader, this.queryContext));
+        return TraderAssort.getOffers(this.queryContext, itemId, traderIds);
+    }
+
+    /**
+     * Get an array of items which the selector affects. That means items which match filter properties and contain a valid property that can be changed by the selector.
+     * @param dbItems Database tables of the server which contain items.
+     * @param selector A selector that will be applied.
+     * @param validatorFunc Optional, if the default 'isValidItem' validator is not enough.
+     * @returns Array of item IDs.
+     */
+    public getAffectedItemIds(dbItems: IDatabaseTables, selector: Selector, validatorFunc: (item: any) => boolean = this.isValidItem): string[]
+    {
+        return this.filterAffectedItemIds(dbItems, selector, this.getMatchingItemIds(dbItems, selector, validatorFunc));
+    }
+
+    /**
+     * Filters matching items down to the ones the selector affects, without evaluating the query again.
+     * @param dbItems Database tables of the server which contain items.
+     * @param selector A selector that will be applied.
+     * @param matchingItemIds IDs of items which match the selector query.
+     * @returns Array of item IDs.
+     */
+    public filterAffectedItemIds(dbItems: IDatabaseTables, selector: Selector, matchingItemIds: string[]): string[]
+    {
+        return matchingItemIds.filter(itemId => 
+        {
+            if ((selector.target ?? "items") === "traderAssort")
+                return this.getAssortOffers(itemId, selector).some(offer => this.canApplyAnyChanges(offer.view, selector));
+            return this.canApplyAnyChanges(dbItems[itemId]._props, this.filterChanges(selector, key => !ItemEconomy.isEconomyProperty(key))) ||
+                this.canApplyAnyChanges(ItemEconomy.getView(this.queryContext, itemId), this.filterChanges(selector, key => ItemEconomy.isEconomyProperty(key)));
+        });
+    }
+
+    /**
+     * Get an array of items which match the selector query.
+     * @param dbItems Database tables of the server which contain items.
+     * @param selector A selector that will be applied.
+     * @param validatorFunc Optional, if the default 'isValidItem' validator is not enough.
+     * @returns Array of item IDs.
+     */
+    public getMatchingItemIds(dbItems: IDatabaseTables, selector: Selector, validatorFunc: (item: any) => boolean = this.isValidItem): string[]
+    {
+        // Indexes are built over the context items, other item tables are scanned as a whole
+        const candidateIds = dbItems === this.queryContext.items ? Query.getCandidateIds(selector.query, this.queryContext) : undefined;
+        return Object.keys(dbItems).filter(itemId => (candidateIds === undefined || candidateIds.has(itemId)) &&
+            validatorFunc(dbItems[itemId]) && Query.evaluateQuery(selector.query, dbItems[itemId], this.queryContext));
+    }
+
+    /**
+     * Validates a selector and collects meta data for it.
+     * @param dbItems Database tables of the server which contain items.
+     * @param selector A selector to validate and collect meta data for.
+     * @param validatorFunc Optional, if the default 'isValidItem' validator is not enough.
+     * @returns A meta data object.
+     */
+    public getSelectorMetaData(dbItems: IDatabaseTables, selector: Selector, logName?: string): SelectorMetaData
+    {
+        const target = selector.target ?? "items";
+        const traders = selector.traders;
+        const hasChanges = SelectorPipeline.hasChanges(selector);
+
+        // Make sure that user's selector has a proper JSON structure and types
+        const issues = ConfigValidator.validateSelector(selector, `selectors.${logName ?? "selector"}`);
+        const fileSuffix = logName !== undefined ? this.getSelectorFileSuffix(logName) : "";
+        if (logName !== undefined)
+            ConfigValidator.report(this.logger, issues, this.selectorFiles.get(logName));
+        if (!ConfigValidator.hasErrors(issues))
+        {
+            // Selector having no changes is not critical
+            if (!hasChanges)
+            {
+                if (logName !== undefined)
+                    this.logger.explicitWarning(`[WARNING] "${logName}" does nothing. All of it's ${Object.keys(SelectorPipeline.changeBlockTypes).map(block => `"${block}"`).join(", ")} properties are undefined.${fileSuffix}`);
+            }
+            const unknownTraders = (traders ?? []).filter(trader => Query.resolveTraderId(trader, this.queryContext) === undefined);
+            if (unknownTraders.length > 0)
+            {
+                if (logName !== undefined)
+                    this.logger.explicitError(`[ERROR] selectors.${logName}.traders: unknown traders ${JSON.stringify(unknownTraders)}, use trader IDs or names${fileSuffix}`);
+            }
+            else 
+            {
+                this.queryContext.typeMismatches.clear();
+                const matchingItemIds = this.getMatchingItemIds(dbItems, selector);
+                for (const [typeMismatch, itemCount] of this.queryContext.typeMismatches)
+                {
+                    if (logName !== undefined)
+                        this.logger.explicitWarning(`[WARNING] selectors.${logName}.query: ${typeMismatch}, ${itemCount} items skipped${fileSuffix}`);
+                }
+                const affectedItemIds = this.filterAffectedItemIds(dbItems, selector, matchingItemIds);
+                if (matchingItemIds.length < 1 && hasChanges) // Check for undefined change properties to avoid duplicating basically the same message. 
+                {
+                    if (logName !== undefined)
+                        this.logger.explicitWarning(`[WARNING] "${logName}" has ${matchingItemIds.length} no matching items. Check your query parameters.${fileSuffix}`);
+                }
+                else if (affectedItemIds.length < 1 && hasChanges)
+                {
+                    if (logName !== undefined)
+                        this.logger.explicitWarning(`[WARNING] "${logName}" query matches ${matchingItemIds.length} items but none are affected. Check if ${Object.keys(SelectorPipeline.changeBlockTypes).join("/")} value types are correct. For more info set "logLevel": "verbose" in the selector.${fileSuffix}`);
+                }
+                // Assort offer properties are keyed per offer, so selectors only conflict if they change the same offer of the same trader
+                const changedProperties = SelectorPipeline.getChangedProperties(selector);
+                return {
+                    matchingIds: matchingItemIds,
+                    affectedIds: affectedItemIds,
+                    changedProperties: target === "traderAssort" ?
+                        affectedItemIds.flatMap(itemId => this.getAssortOffers(itemId, selector))
+                            .flatMap(offer => changedProperties.map(property => SelectorPipeline.getOfferPropertyPrefix(offer) + property)) :
+                        changedProperties,
+                    // Used to order selectors and resolve conflicts
+                    priority: selector.priority ?? 0,
+                    isValid: true
+                };
+            }
+        }
+        return {
+            matchingIds: [],
+            affectedIds: [],
+            changedProperties: [],
+            isValid: false
+        }
+    }
+
+    /**
+     * Builds a per-item, per-property conflict matrix of the selectors.
+     * @param orderedSelectorKeys Keys of valid selectors in application order.
+     * @param selectorsMetaData Selector meta data.
+     * @param overwritesMetaData Manual overwrite meta data. Conflicting properties changed by an overwrite are marked as resolved.
+     * @returns Array of conflicts, one per item property changed by more than one selector.
+     */
+    public getPropertyConflicts(orderedSelectorKeys: string[], selectorsMetaData: Map<string, SelectorMetaData>, overwritesMetaData: Map<string, OverwriteMetaData>): PropertyConflict[]
+    {
+        // itemId -> property -> selector keys
+        const propertySelectors = new Map<string, Map<string, string[]>>();
+        for (const selectorKey of orderedSelectorKeys)
+        {
+            const selectorMeta = selectorsMetaData.get(selectorKey);
+            for (const itemId of selectorMeta.affectedIds)
+            {
+                if (!propertySelectors.has(itemId)) propertySelectors.set(itemId, new Map<string, string[]>());
+                const itemProperties = propertySelectors.get(itemId);
+                for (const property of this.getConcreteProperties(itemId, selectorMeta.changedProperties))
+                {
+                    if (!itemProperties.has(property)) itemProperties.set(property, []);
+                    itemProperties.get(property).push(selectorKey);
+                }
+            }
+        }
+
+        const conflicts: PropertyConflict[] = [];
+        for (const [itemId, itemProperties] of propertySelectors)
+        {
+            for (const [property, selectorKeys] of itemProperties)
+            {
+                if (selectorKeys.length > 1)
+                {
+                    conflicts.push({
+                        itemId: itemId,
+                        property: property,
+                        selectorKeys: selectorKeys,
+                        resolvedByOverwrite: overwritesMetaData.get(itemId)?.changedProperties.includes(property) ?? false
+                    });
+                }
+            }
+        }
+        return conflicts;
+    }
+
+    /**
+     * Resolves conflicts with the policy. Manual overwrite resolved conflicts are skipped, overwrites exclude their properties anyway.
+     * @param conflicts Property conflicts.
+     * @param policy Conflict policy.
+     * @returns A map of selector keys to maps of item IDs and properties which the selector must not change.
+     */
+    public resolvePropertyConflicts(conflicts: PropertyConflict[], policy: ConflictPolicy): Map<string, Map<string, string[]>>
+    {
+        const exclusions = new Map<string, Map<string, string[]>>();
+        const exclude = (selectorKey: string, itemId: string, property: string) => 
+        {
+            if (!exclusions.has(selectorKey)) exclusions.set(selectorKey, new Map<string, string[]>());
+            const selectorExclusions = exclusions.get(selectorKey);
+            if (!selectorExclusions.has(itemId)) selectorExclusions.set(itemId, []);
+            selectorExclusions.get(itemId).push(property);
+        };
+
+        for (const conflict of conflicts.filter(element => !element.resolvedByOverwrite))
+        {
+            switch (policy)
+            {
+                case "priority":
+                    // Keys are in ascending priority order, so the last one wins
+                    conflict.selectorKeys.slice(0, -1).forEach(selectorKey => exclude(selectorKey, conflict.itemId, conflict.property));
+                    break;
+                case "error":
+                    conflict.selectorKeys.forEach(selectorKey => exclude(selectorKey, conflict.itemId, conflict.property));
+                    break;
+                case "compose":
+                    break;
+            }
+        }
+        return exclusions;
+    }
+
+    /**
+     * Reports the conflict matrix, grouped by item.
+     * @param dbItems Database tables of the server which contain items.
+     * @param conflicts Property conflicts.
+     * @param policy Conflict policy the conflicts were resolved with.
+     * @param selectorsMetaData Selector meta data.
+     */
+    public reportPropertyConflicts(dbItems: IDatabaseTables, conflicts: PropertyConflict[], policy: ConflictPolicy, selectorsMetaData: Map<string, SelectorMetaData>): void
+    {
+        const unresolvedConflicts = conflicts.filter(element => !element.resolvedByOverwrite);
+        if (conflicts.length > unresolvedConflicts.length)
+            this.logger.info(`${conflicts.length - unresolvedConflicts.length} property conflicts are resolved by manual overwrite.`);
+        if (unresolvedConflicts.length < 1) return;
+
+        const conflictItemIds = [...new Set(unresolvedConflicts.map(element => element.itemId))];
+        if (policy === "error")
+            this.logger.explicitError(`[ERROR] ${unresolvedConflicts.length} property conflicts in ${conflictItemIds.length} items. Conflicting properties won't be changed (conflict policy "${policy}").`);
+        else
+            this.logger.explicitLog(`[WARNING] ${unresolvedConflicts.length} property conflicts in ${conflictItemIds.length} items. Resolved with conflict policy "${policy}".`, LogTextColor.RED, LogBackgroundColor.YELLOW);
+
+        for (const itemId of conflictItemIds)
+        {
+            this.logger.explicitLog(`[WARNING] Item ${dbItems[itemId]._name} (${itemId}):`, LogTextColor.YELLOW);
+            for (const conflict of unresolvedConflicts.filter(element => element.itemId === itemId))
+            {
+                const selectors = conflict.selectorKeys.map(selectorKey => `"${selectorKey}"(${selectorsMetaData.get(selectorKey).priority})${this.getSelectorFileSuffix(selectorKey)}`).join(", ");
+                let resolution: string;
+                switch (policy)
+                {
+                    case "priority":
+                    {
+                        const [winnerKey, runnerUpKey] = [...conflict.selectorKeys].reverse();
+                        const isTie = selectorsMetaData.get(winnerKey).priority === selectorsMetaData.get(runnerUpKey).priority;
+                        resolution = `"${winnerKey}" wins${isTie ? " (equal priority, resolved by config order)" : ""}`;
+                        break;
+                    }
+                    case "compose":
+                        resolution = "applied in priority order";
+                        break;
+                    case "error":
+                        resolution = "not applied";
+                        break;
+                }
+                this.logger.explicitLog(`├ ${conflict.property}: ${selectors} -> ${resolution}`, LogTextColor.YELLOW);
+            }
+        }
+    }
+
+    // Item validation functions
+
+    /**
+     * Additional item validator for weapons, to really make sure it's a usable weapon in game.
+     * @param item Item to validate.
+     * @returns Validation result (true|false).
+     */
+    private isValidWeaponItem(item: any): boolean
+    {
+        return item != null && item._type === "Item" && item._props != null && item._props.weapClass != null && item._name != null;
+    }
+
+    /**
+     * Additional item validator for armors, to really make sure it's a usable armor in game.
+     * @param item Item to validate.
+     * @returns Validation result. (true|false)
+     */
+    private isValidArmorItem(item: any): boolean
+    {
+        return item != null && item._type === "Item" && item._props != null && item._props.ArmorType != null && item._name != null;
+    }
+
+    /**
+     * Basic item validator.
+     * @param item Item to validate
+     * @returns Validation result. (true|false)
+     */
+    private isValidItem(item: any): boolean
+    {
+        return item != null && item._type === "Item" && item._props != null && item._name != null;
+    }
+    
+    /**
+     * @deprecated
+     * Primitive check to see where the property is private or not. Private properties are designated with an underscore.
+     * @param propertyName String of a property name to be checked.
+     * @returns Check result.
+     */
+    private isPrivateProperty(propertyName: string)
+    {
+        return propertyName.charAt(0) === "_";
+    }
+}
+
+export { SelectorPipeline, SelectorActivation, Changes, SelectorTarget, Selector, SelectorMetaData, Overwrite, OverwriteIdentifierType, OverwriteMetaData, ConflictPolicy, PropertyConflict };
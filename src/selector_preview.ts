@@ -0,0 +1,149 @@
+import { VerboseLogger } from "./verbose_logger";
+import { ChangeJournal, ChangeJournalEntry } from "./change_journal";
+import { Applicator } from "./applicator";
+import { QueryContext } from "./query";
+import { Selector, SelectorPipeline } from "./selector_pipeline";
+import { ConfigValidator, ValidationIssue } from "./config_validator";
+
+type PreviewItem = {
+    id: string;
+    name: string;
+    affected: boolean;
+}
+
+type PreviewChange = Pick<ChangeJournalEntry, "property" | "operation" | "oldValue" | "newValue">;
+
+type PreviewResponse = {
+    // Validation errors and warnings, the selector is only evaluated without errors
+    issues: ValidationIssue[];
+    // Query type mismatch messages with the number of skipped items
+    typeMismatches?: Record<string, number>;
+    matchingCount?: number;
+    affectedCount?: number;
+    items?: PreviewItem[];
+    // Item ID -> changes the selector would make
+    changes?: Record<string, PreviewChange[]>;
+}
+
+/**
+ * Evaluates selectors sent to the "/itemtweaker/query" and "/itemtweaker/preview" routes against the current database,
+ * so queries can be checked without restarting the server. The database is never changed: preview changes are applied
+ * to deep copies of the affected items, their economy values and trader assorts.
+ *
+ * SPT request bodies are zlib-compressed by default, callers which send plain JSON (e.g. curl) need the "requestcompressed: 0" header.
+ */
+class SelectorPreview
+{
+    private logger: VerboseLogger;
+    private getQueryContext: () => QueryContext;
+
+    /**
+     * @param logger Logger for the pipeline, preferably non-verbose so requests don't flood the server log.
+     * @param getQueryContext Gets the query context of the last run, undefined until the database is loaded.
+     */
+    constructor(logger: VerboseLogger, getQueryContext: () => QueryContext)
+    {
+        this.logger = logger;
+        this.getQueryContext = getQueryContext;
+    }
+
+    /**
+     * Lists items which match the selector query and whether the selector changes them.
+     * @param selector Selector, the same as in "dynamic_selectors.json".
+     * @returns Response object.
+     */
+    public query(selector: Selector): PreviewResponse
+    {
+        return this.evaluate(selector, (pipeline, context, response) =>
+        {
+            const matchingIds = pipeline.getMatchingItemIds(context.items, selector);
+            response.typeMismatches = this.takeTypeMismatches(context);
+            const affectedIds = new Set(pipeline.filterAffectedItemIds(context.items, selector, matchingIds));
+            response.matchingCount = matchingIds.length;
+            response.affectedCount = affectedIds.size;
+            response.items = matchingIds.map(itemId => ({ id: itemId, name: context.items[itemId]._name, affected: affectedIds.has(itemId) }));
+        });
+    }
+
+    /**
+     * Lists every change the selector would make, with old and new values. Other selectors and overwrites are not taken into account,
+     * old values are the current values of the database, after the tweaks.
+     * @param selector Selector, the same as in "dynamic_selectors.json".
+     * @returns Response object.
+     */
+    public preview(selector: Selector): PreviewResponse
+    {
+        return this.evaluate(selector, (pipeline, context, response, journal) =>
+        {
+            const affectedIds = pipeline.getAffectedItemIds(context.items, selector);
+            response.typeMismatches = this.takeTypeMismatches(context);
+            const previewContext = this.copyContext(context, affectedIds, (selector.target ?? "items") === "traderAssort");
+            const previewPipeline = new SelectorPipeline(this.logger, new Applicator(this.logger, journal), journal, previewContext);
+            previewPipeline.applySelector(previewContext.items, selector, "preview", affectedIds);
+            response.changes = {};
+            for (const entry of journal.getEntries())
+            {
+                response.changes[entry.itemId] ??= [];
+                response.changes[entry.itemId].push({ property: entry.property, operation: entry.operation, oldValue: entry.oldValue, newValue: entry.newValue });
+            }
+            response.affectedCount = Object.keys(response.changes).length;
+            response.items = Object.keys(response.changes).map(itemId => ({ id: itemId, name: context.items[itemId]._name, affected: true }));
+        });
+    }
+
+    /**
+     * Validates the selector and runs the evaluation with a pipeline of it's own.
+     */
+    private evaluate(selector: Selector, evaluation: (pipeline: SelectorPipeline, context: QueryContext, response: PreviewResponse, journal: ChangeJournal) => void): PreviewResponse
+    {
+        const context = this.getQueryContext();
+        if (context === undefined) throw "the database isn't loaded yet";
+        const response: PreviewResponse = { issues: ConfigValidator.validateSelector(selector, "selector") };
+        if (ConfigValidator.hasErrors(response.issues)) return response;
+
+        const journal = new ChangeJournal();
+        const pipeline = new SelectorPipeline(this.logger, new Applicator(this.logger, journal), journal, context);
+        context.typeMismatches.clear();
+        evaluation(pipeline, context, response, journal);
+        context.typeMismatches.clear();
+        return response;
+    }
+
+    /**
+     * Copies the parts of the query context a selector can change for the given items: the items themselves, their handbook entries, prices
+     * and optionally trader assorts. Everything else is shared with the live context, as it's only read.
+     * @param context Live query context.
+     * @param itemIds IDs of the items which are changed.
+     * @param copyTraders Whether trader assorts are changed, they are only copied for "traderAssort" selectors.
+     * @returns Query context which can be changed without touching the database.
+     */
+    private copyContext(context: QueryContext, itemIds: string[], copyTraders: boolean): QueryContext
+    {
+        const deepCopy = <T>(value: T): T => value === undefined ? value : JSON.parse(JSON.stringify(value));
+        const items = { ...context.items };
+        const handbookItems = new Map(context.handbookItems);
+        for (const itemId of itemIds)
+        {
+            items[itemId] = deepCopy(context.items[itemId]);
+            if (handbookItems.has(itemId))
+                handbookItems.set(itemId, deepCopy(handbookItems.get(itemId)));
+        }
+        const traders = copyTraders ?
+            Object.fromEntries(Object.entries(context.traders).map(([traderId, trader]) => [traderId, { ...trader, assort: deepCopy(trader.assort) }])) :
+            context.traders;
+        return { ...context, items: items, handbookItems: handbookItems, prices: { ...context.prices }, traders: traders, typeMismatches: new Map<string, number>() };
+    }
+
+    /**
+     * Gets type mismatches collected so far and clears them, so evaluating the same query again doesn't count them twice.
+     * @returns Type mismatch message -> number of items, undefined if there are none.
+     */
+    private takeTypeMismatches(context: QueryContext): Record<string, number>
+    {
+        const typeMismatches = context.typeMismatches.size > 0 ? Object.fromEntries(context.typeMismatches) : undefined;
+        context.typeMismatches.clear();
+        return typeMismatches;
+    }
+}
+
+export { SelectorPreview, PreviewResponse, PreviewItem, PreviewChange };
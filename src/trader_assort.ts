@@ -0,0 +1,155 @@
+import { Item, Upd } from "@spt-aki/models/eft/common/tables/IItem";
+import { IBarterScheme, ITraderAssort } from "@spt-aki/models/eft/common/tables/ITrader";
+
+import { QueryContext } from "./query";
+
+/**
+ * Editable view of a single trader assort offer. Properties read from and write to the underlying assort tables,
+ * so the view can be passed to the Applicator as a regular target object.
+ */
+class AssortOfferView
+{
+    private assort: ITraderAssort;
+    private assortItem: Item;
+    private assortId: string;
+
+    constructor(assort: ITraderAssort, assortItem: Item)
+    {
+        this.assort = assort;
+        this.assortId = assortItem._id;
+        this.assortItem = assortItem;
+    }
+
+    public get loyaltyLevel(): number
+    {
+        return this.assort.loyal_level_items[this.assortId];
+    }
+
+    public set loyaltyLevel(value: number)
+    {
+        if (value == null)
+            delete this.assort.loyal_level_items[this.assortId];
+        else
+            this.assort.loyal_level_items[this.assortId] = Math.round(value);
+    }
+
+    public get stockCount(): number
+    {
+        return this.assortItem.upd?.StackObjectsCount;
+    }
+
+    public set stockCount(value: number)
+    {
+        this.setUpdValue("StackObjectsCount", value == null ? value : Math.round(value));
+    }
+
+    public get unlimitedCount(): boolean
+    {
+        return this.assortItem.upd?.UnlimitedCount ?? false;
+    }
+
+    public set unlimitedCount(value: boolean)
+    {
+        this.setUpdValue("UnlimitedCount", value);
+    }
+
+    public get buyRestrictionMax(): number
+    {
+        return this.assortItem.upd?.BuyRestrictionMax;
+    }
+
+    public set buyRestrictionMax(value: number)
+    {
+        this.setUpdValue("BuyRestrictionMax", value == null ? value : Math.round(value));
+    }
+
+    /**
+     * Count of the first (for currency offers - the only) barter scheme entry. Never goes below 1.
+     */
+    public get cost(): number
+    {
+        return this.assort.barter_scheme[this.assortId]?.[0]?.[0]?.count;
+    }
+
+    public set cost(value: number)
+    {
+        this.assort.barter_scheme[this.assortId][0][0].count = Math.max(1, Math.round(value));
+    }
+
+    /**
+     * Raw barter scheme entries, e.g. "scheme.1.count".
+     */
+    public get scheme(): IBarterScheme[]
+    {
+        return this.assort.barter_scheme[this.assortId]?.[0];
+    }
+
+    public set scheme(value: IBarterScheme[])
+    {
+        this.assort.barter_scheme[this.assortId][0] = value;
+    }
+
+    /**
+     * Sets an "upd" value of the offer item. Undefined values remove the key, so restoring an offer which had no value doesn't add one.
+     */
+    private setUpdValue<K extends keyof Upd>(key: K, value: Upd[K]): void
+    {
+        if (value == null)
+        {
+            if (this.assortItem.upd != null) delete this.assortItem.upd[key];
+            return;
+        }
+        if (this.assortItem.upd == null) this.assortItem.upd = {};
+        this.assortItem.upd[key] = value;
+    }
+}
+
+type AssortOffer = {
+    traderId: string;
+    assortId: string;
+    view: AssortOfferView;
+}
+
+/**
+ * Utility class which provides access to trader assort offers of items.
+ */
+class TraderAssort
+{
+    // Assort items array -> assort item ID -> assort item, built once per assort so views don't search the array
+    private static assortItems = new WeakMap<Item[], Map<string, Item>>();
+
+    /**
+     * Gets editable views of every root offer of an item, from the offers collected in the query context.
+     * @param context Query context with the database traders and their offers.
+     * @param itemId Item template ID.
+     * @param traderIds Optional trader IDs to limit the offers to.
+     * @returns Array of offers.
+     */
+    public static getOffers(context: QueryContext, itemId: string, traderIds?: string[]): AssortOffer[]
+    {
+        const offers: AssortOffer[] = [];
+        for (const offer of context.traderOffers.get(itemId) ?? [])
+        {
+            if (traderIds != null && !traderIds.includes(offer.traderId)) continue;
+            const assort = context.traders[offer.traderId]?.assort;
+            const assortItem = assort == null ? undefined : this.getAssortItem(assort, offer.assortId);
+            if (assortItem === undefined) continue;
+            offers.push({ traderId: offer.traderId, assortId: offer.assortId, view: new AssortOfferView(assort, assortItem) });
+        }
+        return offers;
+    }
+
+    private static getAssortItem(assort: ITraderAssort, assortId: string): Item
+    {
+        let assortItems = this.assortItems.get(assort.items);
+        // Items could have been added to the assort since the lookup was built, e.g. by clones
+        if (assortItems === undefined || !assortItems.has(assortId))
+        {
+            assortItems = new Map(assort.items.map(element => [element._id, element]));
+            this.assortItems.set(assort.items, assortItems);
+        }
+        return assortItems.get(assortId);
+    }
+}
+
+export { TraderAssort, AssortOffer, AssortOfferView };
@@ -1,126 +1,194 @@
-import { DependencyContainer } from "tsyringe";
 import { ILogger } from "@spt-aki/models/spt/utils/ILogger";
 
 import modConfig from "../config/config.json";
 
+import { LogFile } from "./log_file";
+
+const logLevels = ["off", "error", "warning", "info", "verbose"] as const;
+
+/**
+ * Log levels from the least to the most detailed. A level shows it's own messages and every less detailed one, "off" shows nothing.
+ */
+type LogLevel = typeof logLevels[number];
+
+type LogRow = {
+    cells: string[];
+    color: string;
+}
+
 /**
  * An upscaled logger which has optional and explicit logging funcions.
- * Optional functions output a message based on the "verbose" value in config.json:
- * 
- * { 
+ * Explicit functions log errors, warnings and info messages. Optional functions log details at the "verbose" level.
+ * Levels of the console and of the optional log file are set in config.json:
+ *
+ * {
  *      "logger": {
- *          "verbose":true/false
- *      } 
+ *          "level": "off" | "error" | "warning" | "info" | "verbose",
+ *          "fileLevel": "off" | "error" | "warning" | "info" | "verbose"
+ *      }
  * }
- * 
- * Version 230309
+ *
+ * "verbose": true is still supported and raises the console level to "verbose".
+ * Wraps any ILogger: the server's "WinstonLogger" inside SPT, or a ConsoleLogger when running standalone.
+ *
+ * Version 261018
  */
-class VerboseLogger 
+class VerboseLogger
 {
+    public static readonly levels: readonly string[] = logLevels;
+
     private logger: ILogger;
-    private verbose: boolean;
-    constructor(container: DependencyContainer) 
+    private level: LogLevel;
+    private logFile: LogFile;
+    // Level of the selector which is applied right now, overrides the configured console and file levels
+    private selectorLevel: LogLevel;
+    // Consecutive table rows, written with aligned columns once something else is logged
+    private rows: LogRow[] = [];
+
+    /**
+     * @param logger Logger to write console messages with.
+     * @param level Console level. true and false are the same as "verbose" and "info".
+     * @param logFile Optional log file, written with it's own level.
+     */
+    constructor(logger: ILogger, level: LogLevel | boolean = VerboseLogger.getConfiguredLevel(), logFile?: LogFile)
     {
-        this.logger = container.resolve<ILogger>("WinstonLogger");
-        this.verbose = modConfig.logger.verbose;
+        this.logger = logger;
+        this.level = typeof level === "boolean" ? (level ? "verbose" : "info") : level;
+        this.logFile = logFile;
     }
 
-    private format(...args: any[]): string 
+    /**
+     * Gets the console level from config.json.
+     */
+    public static getConfiguredLevel(): LogLevel
     {
-        let buffer = args[0];
-        const matches = buffer.match(/%\d+[s]/g);
-        if (matches != null && args.length > 1) 
-        {
-            const spaces = matches.map((e: string) => e.match(/\d+/).pop());
-
-            for (let index = 1; index < args.length; ++index) 
-            {
-                const argument = (typeof args[index] === "string") ? args[index] : args[index].toString();
-                const space = spaces[index - 1];
-                let newString = argument;
+        const loggerConfig: { verbose?: boolean, level?: string } = modConfig.logger ?? {};
+        if (loggerConfig.verbose ?? false) return "verbose";
+        return logLevels.includes(loggerConfig.level as LogLevel) ? loggerConfig.level as LogLevel : "info";
+    }
 
-                if (space > argument.length) 
-                {
-                    newString += " ".repeat(space - argument.length);
-                }
+    /**
+     * Overrides the console and file levels while a selector with it's own "logLevel" is applied.
+     * @param level Level of the selector, undefined to go back to the configured levels.
+     */
+    public setSelectorLevel(level?: LogLevel): void
+    {
+        this.flush();
+        this.selectorLevel = level;
+    }
 
-                buffer = buffer.replace(/%\d+[s]/, newString);
-            }
-        }
-        return buffer;
+    /**
+     * Logs a row of a table at the "verbose" level, e.g. a single property change. Consecutive rows are written together,
+     * every column padded to it's widest cell.
+     * @param cells Row cells, the last one isn't padded.
+     * @param color Text color of the row.
+     */
+    public row(cells: any[], color: string): void
+    {
+        if (!this.isConsoleEnabled("verbose") && !this.isFileEnabled("verbose")) return;
+        this.rows.push({ cells: cells.map(cell => typeof cell === "string" ? cell : `${cell}`), color: color });
     }
 
-    public log(args: string | any[], color: string, backgroundColor?: string): void 
+    /**
+     * Writes buffered table rows.
+     */
+    public flush(): void
     {
-        if (this.verbose) 
+        if (this.rows.length < 1) return;
+        const rows = this.rows;
+        this.rows = [];
+        const columnWidths: number[] = [];
+        for (const row of rows)
+            row.cells.forEach((cell, index) => columnWidths[index] = Math.max(columnWidths[index] ?? 0, cell.length));
+        for (const row of rows)
         {
-            if (Array.isArray(args))
-                this.logger.log(this.format(...args), color, backgroundColor);
-            else
-                this.logger.log(args, color, backgroundColor);
+            const line = row.cells.map((cell, index) => index < row.cells.length - 1 ? cell.padEnd(columnWidths[index]) : cell).join(" ");
+            if (this.isConsoleEnabled("verbose"))
+                this.logger.log(line, row.color);
+            if (this.isFileEnabled("verbose"))
+                this.logFile.write("verbose", line);
         }
     }
 
-    public info(...args: any[]): void 
+    private format(...args: any[]): string
     {
-        if (this.verbose) 
-        {
-            this.logger.info(this.format(...args));
-        }
+        return args.map(arg => typeof arg === "string" ? arg : `${arg}`).join(" ");
     }
 
-    public warning(...args: any[]): void 
+    private isConsoleEnabled(level: LogLevel): boolean
     {
-        if (this.verbose) 
-        {
-            this.logger.warning(this.format(...args));
-        }
+        return logLevels.indexOf(level) <= logLevels.indexOf(this.selectorLevel ?? this.level);
     }
 
-    public error(...args: any[]): void 
+    private isFileEnabled(level: LogLevel): boolean
     {
-        if (this.verbose) 
-        {
-            this.logger.error(this.format(...args));
-        }
+        return this.logFile !== undefined && logLevels.indexOf(level) <= logLevels.indexOf(this.selectorLevel ?? this.logFile.level);
     }
 
-    public success(...args: any[]): void 
+    /**
+     * Writes a message to the console and the log file if their levels allow it.
+     */
+    private output(level: LogLevel, message: string, writeToConsole: (message: string) => void): void
     {
-        if (this.verbose) 
-        {
-            this.logger.success(this.format(...args));
-        }
+        this.flush();
+        if (this.isConsoleEnabled(level))
+            writeToConsole(message);
+        if (this.isFileEnabled(level))
+            this.logFile.write(level, message);
+    }
+
+    public log(args: string | any[], color: string, backgroundColor?: string): void
+    {
+        const message = Array.isArray(args) ? this.format(...args) : args;
+        this.output("verbose", message, text => this.logger.log(text, color, backgroundColor));
+    }
+
+    public info(...args: any[]): void
+    {
+        this.output("verbose", this.format(...args), text => this.logger.info(text));
+    }
+
+    public warning(...args: any[]): void
+    {
+        this.output("verbose", this.format(...args), text => this.logger.warning(text));
+    }
+
+    public error(...args: any[]): void
+    {
+        this.output("verbose", this.format(...args), text => this.logger.error(text));
+    }
+
+    public success(...args: any[]): void
+    {
+        this.output("verbose", this.format(...args), text => this.logger.success(text));
     }
 
-    public explicitLog(args: string | any[], color: string, backgroundColor?: string): void 
+    public explicitLog(args: string | any[], color: string, backgroundColor?: string): void
     {
-        if (Array.isArray(args))
-            this.logger.log(this.format(...args), color, backgroundColor);
-        else
-            this.logger.log(args, color, backgroundColor);
+        const message = Array.isArray(args) ? this.format(...args) : args;
+        this.output("info", message, text => this.logger.log(text, color, backgroundColor));
     }
 
-    public explicitInfo(...args: any[]): void 
+    public explicitInfo(...args: any[]): void
     {
-        this.logger.info(this.format(...args));
+        this.output("info", this.format(...args), text => this.logger.info(text));
     }
 
-    public explicitWarning(...args: any[]): void 
+    public explicitWarning(...args: any[]): void
     {
-        this.logger.warning(this.format(...args));
+        this.output("warning", this.format(...args), text => this.logger.warning(text));
     }
 
-    public explicitError(...args: any[]): void 
+    public explicitError(...args: any[]): void
     {
-        this.logger.error(this.format(...args));
+        this.output("error", this.format(...args), text => this.logger.error(text));
     }
 
-    public explicitSuccess(...args: any[]): void 
+    public explicitSuccess(...args: any[]): void
     {
-        this.logger.success(this.format(...args));
+        this.output("info", this.format(...args), text => this.logger.success(text));
     }
 
 }
 
-export { VerboseLogger };
\ No newline at end of file
+export { VerboseLogger, LogLevel };